@@ -0,0 +1,49 @@
+//CaptureRecorder writes the raw traffic of a Client to a capture file, so a
+//session can be replayed later with ReplayClient, offline and as often as
+//needed to reproduce a problem.  Start one with the capture option of Client,
+//or with client.startCapture().
+//
+//A capture file holds one JSON CaptureFrame per line.  Received data is
+//recorded exactly as the transport delivered it, in the same chunks, so even
+//problems with packets split across reads can be reproduced.  That's always
+//in the binary packet framing, even for WebSocket connections, see Transport.
+//What the client sends is recorded too, except for the passcode of its LOGIN,
+//which is masked.
+class CaptureRecorder {
+    private stream: any;
+
+    //Appends to the file at path, creating it if needed.  Write errors are
+    //logged to logger.
+    constructor(path: string, logger: Logger = new ConsoleLogger()) {
+        var fs = require("fs");
+        this.stream = fs.createWriteStream(path, { flags: "a" });
+        this.stream.on('error', function(err: Error) {
+            logger.log(LogLevel.Error, "Unable to write capture file '" + path + "': " + err.message);
+        });
+    }
+
+    //Records a frame of data, stamped with the current time
+    record(direction: CaptureDirection, data?: Buffer): void {
+        var frame: CaptureFrame = { time: Date.now(), direction: direction };
+        if (data !== undefined) {
+            frame.data = data.toString("base64");
+        }
+        this.stream.write(JSON.stringify(frame) + "\n");
+    }
+
+    //Finishes writing the file
+    close(callback?: () => void): void {
+        this.stream.end(callback);
+    }
+}
+
+//"in" for data received, "out" for data sent, and "connect" for the start of
+//a new connection, where the server's data starts over
+type CaptureDirection = "in" | "out" | "connect";
+interface CaptureFrame {
+    time: number;           //When, in ms
+    direction: CaptureDirection;
+    data?: string;          //The raw bytes, base64 encoded
+}
+
+exports.CaptureRecorder = CaptureRecorder;
@@ -0,0 +1,296 @@
+//ChatArchiver keeps a permanent record of the chat, private messages and tips
+//a Client sees.  Each room's records go to files of their own, a new one every
+//day, as JSON lines for scripts and as plain text for people:
+//
+//  var archiver = new ChatArchiver(client, { directory: "logs", rooms: [3111899] });
+//  client.connect().then(function() { client.joinRoom(3111899); });
+//
+//writes logs/100311899-2016-05-21.jsonl and logs/100311899-2016-05-21.txt,
+//and the private messages to logs/pm-2016-05-21.jsonl and .txt.  The day is
+//the local date of each message.
+//
+//Records are collected in memory and appended to the files every
+//flushInterval milliseconds.  Everything not yet written is also written when
+//the process exits, or is stopped with SIGINT or SIGTERM, so nothing is lost
+//when a script is stopped.  The exception is a write already under way at
+//that point, which can't be waited for, so its lines may be lost or end up
+//after the ones written on exit.
+//
+//The backlog MFC sends when a room is joined with history repeats messages
+//that may already be in the archive, so it's not archived by default.
+class ChatArchiver {
+    //Default for ChatArchiverOptions.flushInterval
+    static defaultFlushInterval: number = 1000;
+
+    private client: Client;
+    private directory: string;
+    private rooms: { [index: number]: boolean };    //undefined for every room
+    private formats: ArchiveFormat[];
+    private privateMessages: boolean;
+    private tips: boolean;
+    private includeHistory: boolean;
+    private flushInterval: number;
+    private pending: { [path: string]: string[] } = {};     //Lines whose write hasn't started, by file
+    private writes: { [path: string]: Promise<void> } = {}; //Files being written, until nothing's pending
+    private flushTimer: NodeJS.Timer;
+    private onChat: (packet: ChatPacket) => void;
+    private onTip: (tip: Tip) => void;
+    private onExit: () => void;
+    private onSignal: { [signal: string]: () => void } = {};
+
+    //Starts archiving what client receives, see ChatArchiverOptions.  The
+    //directory is created if it doesn't exist yet.
+    constructor(client: Client, options: ChatArchiverOptions) {
+        this.client = client;
+        this.directory = options.directory;
+        if (options.rooms !== undefined) {
+            this.rooms = {};
+            options.rooms.forEach((id: number) => this.addRoom(id));
+        }
+        this.formats = options.formats !== undefined ? options.formats : [ArchiveFormat.Json, ArchiveFormat.Text];
+        this.privateMessages = options.privateMessages !== false;
+        this.tips = options.tips !== false;
+        this.includeHistory = options.includeHistory === true;
+        this.flushInterval = options.flushInterval !== undefined ? options.flushInterval : ChatArchiver.defaultFlushInterval;
+
+        var fs = require("fs");
+        if (!fs.existsSync(this.directory)) {
+            fs.mkdirSync(this.directory);
+        }
+
+        this.onChat = (packet: ChatPacket) => this.chatReceived(packet);
+        this.onTip = (tip: Tip) => this.tipReceived(tip);
+        client.on(FCTYPE[FCTYPE.CMESG], this.onChat);
+        client.on(FCTYPE[FCTYPE.PMESG], this.onChat);
+        client.on("tip", this.onTip);
+
+        if (options.flushOnExit !== false) {
+            this.onExit = () => this.flushSync();
+            process.on('exit', this.onExit);
+            ["SIGINT", "SIGTERM"].forEach((signal: string) => {
+                this.onSignal[signal] = () => {
+                    this.flushSync();
+                    //Carry on with the default, stopping the process, unless
+                    //someone else is handling the signal
+                    if (process.listeners(signal).length === 0) {
+                        process.kill(process.pid, signal);
+                    }
+                };
+                process.once(signal, this.onSignal[signal]);
+            });
+        }
+    }
+
+    //Starts archiving the room of the given model, unless every room is
+    //being archived already
+    addRoom(id: number): void {
+        if (this.rooms !== undefined) {
+            this.rooms[ChatArchiver.toRoomId(id)] = true;
+        }
+    }
+
+    //Stops archiving the room of the given model, unless every room is being
+    //archived
+    removeRoom(id: number): void {
+        if (this.rooms !== undefined) {
+            delete this.rooms[ChatArchiver.toRoomId(id)];
+        }
+    }
+
+    //Writes everything collected so far, callback is invoked once it's
+    //completely written
+    flush(callback?: () => void): void {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+
+        Object.keys(this.pending).forEach((path: string) => this.write(path));
+        if (callback !== undefined) {
+            Promise.all(Object.keys(this.writes).map((path: string) => this.writes[path])).then(() => callback());
+        }
+    }
+
+    //Stops archiving and writes everything collected, callback is invoked
+    //once it's completely written
+    close(callback?: () => void): void {
+        this.client.removeListener(FCTYPE[FCTYPE.CMESG], this.onChat);
+        this.client.removeListener(FCTYPE[FCTYPE.PMESG], this.onChat);
+        this.client.removeListener("tip", this.onTip);
+        if (this.onExit !== undefined) {
+            process.removeListener('exit', this.onExit);
+            for (var signal in this.onSignal) {
+                if (this.onSignal.hasOwnProperty(signal)) {
+                    process.removeListener(signal, this.onSignal[signal]);
+                }
+            }
+            this.onExit = undefined;
+            this.onSignal = {};
+        }
+        this.flush(callback);
+    }
+
+    private chatReceived(packet: ChatPacket): void {
+        if (packet.sMessage === undefined || packet.sMessage === null || typeof packet.sMessage !== 'object') {
+            return; //An error reply rather than a message
+        }
+        if (packet.isPrivate ? !this.privateMessages : !this.isArchived(packet.roomId) || (packet.isHistory && !this.includeHistory)) {
+            return;
+        }
+        var record: ArchiveRecord = {
+            time: packet.time.toISOString(),
+            type: packet.isPrivate ? "pm" : "chat",
+            uid: packet.senderId,
+            name: packet.senderName,
+            level: packet.senderLevel,
+            message: packet.pMessage
+        };
+        if (packet.isPrivate) {
+            record.to = packet.nTo;
+        } else {
+            record.room = packet.roomId;
+        }
+        this.archive(packet.isPrivate ? "pm" : String(packet.roomId), packet.time, record);
+    }
+
+    private tipReceived(tip: Tip): void {
+        var room = ChatArchiver.toRoomId(tip.modelId);
+        if (!this.tips || !this.isArchived(room)) {
+            return;
+        }
+        this.archive(String(room), tip.time, {
+            time: tip.time.toISOString(),
+            type: "tip",
+            room: room,
+            uid: tip.senderId,
+            name: tip.senderName,
+            message: tip.message,
+            tokens: tip.tokens
+        });
+    }
+
+    private isArchived(room: number): boolean {
+        return this.rooms === undefined || this.rooms[room] === true;
+    }
+
+    //Adds record to the files for the given key and day
+    private archive(key: string, time: Date, record: ArchiveRecord): void {
+        function pad(n: number): string { return n < 10 ? '0' + n : '' + n; }
+        var day = time.getFullYear() + "-" + pad(time.getMonth() + 1) + "-" + pad(time.getDate());
+        var base = require("path").join(this.directory, key + "-" + day);
+
+        this.formats.forEach((format: ArchiveFormat) => {
+            var path = base + (format === ArchiveFormat.Json ? ".jsonl" : ".txt");
+            var line = (format === ArchiveFormat.Json ? JSON.stringify(record) : ChatArchiver.toText(record, time)) + "\n";
+            (this.pending[path] = this.pending[path] || []).push(line);
+        });
+
+        if (this.flushTimer === undefined) {
+            this.flushTimer = setTimeout(() => this.flush(), this.flushInterval);
+        }
+    }
+
+    //Appends the pending lines of the file at path.  If a write to it is
+    //already under way they're appended once it's finished, so the lines stay
+    //in order, and until then they stay pending for flushSync.
+    private write(path: string): void {
+        if (this.writes[path] !== undefined) {
+            return;
+        }
+        this.writes[path] = new Promise<void>((resolve) => {
+            var next = () => {
+                var lines = this.pending[path];
+                if (lines === undefined) {
+                    delete this.writes[path];
+                    resolve();
+                    return;
+                }
+                delete this.pending[path];
+                require("fs").appendFile(path, lines.join(""), (err: Error) => {
+                    if (err) {
+                        this.client.logger.log(LogLevel.Error, "Unable to write chat archive '" + path + "': " + err.message);
+                    }
+                    next();
+                });
+            };
+            next();
+        });
+    }
+
+    //Writes everything collected so far right away, for when the process is
+    //about to exit and there's no time for anything else
+    private flushSync(): void {
+        var fs = require("fs");
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+        for (var path in this.pending) {
+            if (this.pending.hasOwnProperty(path)) {
+                try {
+                    fs.appendFileSync(path, this.pending[path].join(""));
+                } catch (e) {
+                    this.client.logger.log(LogLevel.Error, "Unable to write chat archive '" + path + "': " + e.message);
+                }
+            }
+        }
+        this.pending = {};
+    }
+
+    //The plain text form of record, like "[18:42:07] Name: message"
+    private static toText(record: ArchiveRecord, time: Date): string {
+        function pad(n: number): string { return n < 10 ? '0' + n : '' + n; }
+        var stamp = "[" + pad(time.getHours()) + ":" + pad(time.getMinutes()) + ":" + pad(time.getSeconds()) + "] ";
+        var name = record.name !== undefined ? record.name : "anonymous";
+        switch (record.type) {
+            case "tip":
+                return stamp + name + " tipped " + record.tokens + " tokens" + (record.message ? ": " + record.message : "");
+            case "pm":
+                return stamp + name + " -> " + record.to + ": " + record.message;
+            default:
+                return stamp + name + ": " + record.message;
+        }
+    }
+
+    private static toRoomId(id: number): number {
+        return id < 100000000 ? id + 100000000 : id;
+    }
+}
+
+//The file formats ChatArchiver can write
+enum ArchiveFormat {
+    Json,   //One ArchiveRecord per line, in .jsonl files
+    Text    //One readable line per record, in .txt files
+};
+interface ChatArchiverOptions {
+    //Where to write the archive files
+    directory: string;
+    //The models, or rooms, whose chat and tips to archive.  Defaults to every
+    //room the client receives chat from.
+    rooms?: number[];
+    //Defaults to both ArchiveFormat.Json and ArchiveFormat.Text
+    formats?: ArchiveFormat[];
+    //Whether to archive private messages, defaults to true
+    privateMessages?: boolean;
+    //Whether to archive tips, defaults to true
+    tips?: boolean;
+    //Whether to archive the backlog sent when a room is joined with history,
+    //defaults to false, see ChatPacket.isHistory
+    includeHistory?: boolean;
+    //Milliseconds between writes, defaults to ChatArchiver.defaultFlushInterval
+    flushInterval?: number;
+    //Whether to write everything collected when the process exits, defaults
+    //to true
+    flushOnExit?: boolean;
+}
+//A line of a .jsonl archive file
+interface ArchiveRecord {
+    time: string;       //When, as an ISO 8601 date
+    type: string;       //"chat", "pm" or "tip"
+    room?: number;      //The room, for chat and tips
+    to?: number;        //Who a PM was sent to
+    uid: number;        //The sender, undefined for anonymous tips
+    name: string;
+    level?: FCLEVEL;
+    message: string;    //With any emotes decoded
+    tokens?: number;    //For tips
+}
+
+exports.ChatArchiver = ChatArchiver;
+exports.ArchiveFormat = ArchiveFormat;
@@ -1,21 +1,80 @@
 var EventEmitter: any = require('events').EventEmitter;
 
-//Creates and maintains a TCP socket connection to MFC chat servers similar to
-//the way the Flash client connects and communicates with MFC.
+//Creates and maintains a connection to MFC chat servers similar to the way
+//the Flash client connects and communicates with MFC.  By default that's a TCP
+//connection, like the Flash client's, but it may also be a WebSocket, see
+//Transport.
+//
+//Besides an event per received packet, named after the packet's FCTYPE, Client
+//emits these connection lifecycle events:
+//  "CLIENT_CONNECTED"          - The connection to the chat server is open
+//  "CLIENT_DISCONNECTED"       - The connection was closed, for whatever reason
+//  "CLIENT_RECONNECTING"       - A reconnect is scheduled, given the attempt number and the delay in ms
+//  "CLIENT_RECONNECT_FAILED"   - Reconnecting was abandoned after the given number of attempts
+//  "CLIENT_LOGIN_FAILED"       - The server rejected our login, given the FCRESPONSE code
+//  "CLIENT_PROTOCOL_ERROR"     - The server sent something we can't decode, given the Error
+//  "CLIENT_SEND_DELAYED"       - A packet we sent was queued by the rate limits, given the Packet
+//  "CLIENT_SEND_DROPPED"       - A packet we sent was thrown away, given the Packet and a DropReason
+//
+//And these events with a friendlier view of certain packets:
+//  "tip"                       - Someone tipped, given a Tip
 class Client implements NodeJS.EventEmitter {
     sessionId: number;
     username: string;
     password: string;
     uid: number;
+    models: ModelRegistry;  //The models this client has heard about
+    sendQueue: SendQueue;   //Paces everything we send, see SendQueue
+    logger: Logger;         //Where everything this client logs goes, see Logger
 
     private net: any;
-    private debug: boolean = false; //Set to true to enable debug logging
     private serverConfig: ServerConfig;
-    private streamBuffer: Buffer;
-    private streamBufferPosition: number;
-    private emoteParser: EmoteParser;
-    private client: any;
+    private serverConfigFile: string;
+    private serverSelection: ServerSelection|ChatServerSelector;
+    private chatServer: string; //The chat server we last connected to, if any
+    private roundRobinIndex: number = 0;
+    private host: string;
+    private port: number;
+    private chatServerLatency: number;
+    protected decoder: PacketDecoder;
+    private emoteEncoder: EmoteEncoder;
+    private emoteFile: string;
+    private transport: Transport;   //The current connection, if any
+    private transportFactory: TransportFactory;
     private keepAlive: NodeJS.Timer;
+    private reconnectOptions: ReconnectOptions;
+    private reconnectTimer: NodeJS.Timer;
+    private reconnectAttempts: number = 0;
+    private disconnecting: boolean = false;
+    private doLogin: boolean;
+    private loginUsername: string; //username is replaced by our chat name once logged in, this is what we log in with
+    private joinedRooms: { [index: number]: boolean } = {};
+    private rooms: { [index: number]: Room } = {};
+    private rejoinPending: boolean = false;
+    private nextQueryId: number = 20;
+    private loginFailurePolicy: LoginFailurePolicy;
+    private recorder: CaptureRecorder;
+    private adoptedDefaultRegistry: boolean = false; //models is ModelRegistry.defaultRegistry, until dispose()
+    private createdRegistry: boolean = false; //models is a registry of our own, disposed with us
+
+    //How long, in milliseconds, to wait for a chat server to accept a connection
+    //when looking for the one with the lowest latency
+    static latencyProbeTimeout: number = 5 * 1000;
+
+    //How long, in milliseconds, to wait for a response from the server by default
+    static defaultResponseTimeout: number = 30 * 1000;
+
+    //Whether a Client has adopted ModelRegistry.defaultRegistry yet
+    private static defaultRegistryAdopted: boolean = false;
+
+    //Default reconnect policy, used for any ReconnectOptions field that isn't given
+    static defaultReconnectOptions: ReconnectOptions = {
+        initialDelay: 1000,
+        maxDelay: 5 * 60 * 1000,
+        factor: 2,
+        jitter: 0.2,
+        maxAttempts: 0
+    };
 
     //By default, this client will log in as a guest.
     //
@@ -28,13 +87,79 @@ class Client implements NodeJS.EventEmitter {
     //cookie named "passcode".  Select it and copy the value listed as "Content".
     //It will be a long string of lower case letters that looks like gibberish.
     //*That* is the password to use here.
-    constructor(username: string = "guest", password: string = "guest") {
+    //
+    //options can tune the behavior of this client, see ClientOptions below.
+    constructor(username: string = "guest", password: string = "guest", options: ClientOptions = {}) {
         this.net = require('net');
         this.username = username;
+        this.loginUsername = username;
         this.password = password;
         this.sessionId = 0;
-        this.streamBuffer = new Buffer(0);
-        this.streamBufferPosition = 0;
+        this.logger = options.logger !== undefined ? options.logger : new ConsoleLogger();
+        this.decoder = new PacketDecoder(this, options.maxPayloadSize);
+        //Every pending request, like a sendChat() waiting for its echo, listens
+        //for its response, so there can legitimately be lots of listeners
+        this.setMaxListeners(0);
+        this.sendQueue = new SendQueue(options.sendQueue);
+        this.sendQueue.on("delayed", (packet: Packet) => this.emit("CLIENT_SEND_DELAYED", packet));
+        this.sendQueue.on("sent", (packet: Packet, data: Buffer, waited: number) => {
+            if (waited > 0) {
+                this.log("Sent " + packet + " after " + waited + "ms in the send queue", LogLevel.Debug, Client.logFieldsOf(packet));
+            }
+            if (this.recorder !== undefined) {
+                //Replays skip what we sent, so the passcode is of no use there
+                if (packet.FCType === FCTYPE.LOGIN) {
+                    data = new Packet(this, packet.FCType, packet.nFrom, packet.nTo, packet.nArg1, packet.nArg2, 0, packet.redactedMessage).toBuffer();
+                }
+                this.recorder.record("out", data);
+            }
+        });
+        this.sendQueue.on("dropped", (packet: Packet, reason: DropReason) => {
+            this.log("Dropped " + packet + " without sending it: " + DropReason[reason], LogLevel.Debug, Client.logFieldsOf(packet));
+            this.emit("CLIENT_SEND_DROPPED", packet, reason);
+        });
+        if (options.models !== undefined) {
+            this.models = options.models;
+        } else if (!Client.defaultRegistryAdopted) {
+            Client.defaultRegistryAdopted = true;
+            this.adoptedDefaultRegistry = true;
+            this.models = ModelRegistry.defaultRegistry;
+        } else {
+            this.createdRegistry = true;
+            this.models = new ModelRegistry();
+        }
+        this.loginFailurePolicy = options.loginFailure !== undefined ? options.loginFailure : LoginFailurePolicy.GiveUp;
+        this.host = options.host;
+        this.port = options.port;
+        if (typeof options.transport === 'function') {
+            this.transportFactory = <TransportFactory>options.transport;
+        } else {
+            var transportType = options.transport !== undefined ? <TransportType>options.transport : TransportType.Tcp;
+            this.transportFactory = () => createTransport(transportType, options.maxPayloadSize);
+        }
+        this.serverSelection = options.serverSelection !== undefined ? options.serverSelection : ServerSelection.Random;
+        if (typeof options.emotes === 'string') {
+            this.emoteFile = <string>options.emotes;
+        } else {
+            this.emoteEncoder = new EmoteEncoder(<EmoteTable>options.emotes);
+        }
+        if (typeof options.serverConfig === 'string') {
+            this.serverConfigFile = <string>options.serverConfig;
+        } else {
+            this.serverConfig = <ServerConfig>options.serverConfig;
+        }
+
+        if (options.capture !== undefined) {
+            this.startCapture(options.capture);
+        }
+
+        if (options.reconnect !== false) {
+            var reconnect: any = typeof options.reconnect === 'object' ? options.reconnect : {};
+            this.reconnectOptions = {};
+            for (var key in Client.defaultReconnectOptions) {
+                (<any>this.reconnectOptions)[key] = reconnect[key] !== undefined ? reconnect[key] : (<any>Client.defaultReconnectOptions)[key];
+            }
+        }
     }
 
     //Instance EventEmitter methods
@@ -47,24 +172,58 @@ class Client implements NodeJS.EventEmitter {
     listeners: (event: string) => Function[];
     emit: (event: string, ...args: any[]) => boolean;
 
-    //Simple helper log function that adds a timestamp and supports filtering 'debug' only messages
-    private log(msg: string, debugOnly: boolean = false): void {
-        if (debugOnly && !this.debug) {
-            return;
+    //Logs msg to our logger
+    protected log(msg: string, level: LogLevel = LogLevel.Info, fields?: LogFields): void {
+        this.logger.log(level, msg, fields);
+    }
+
+    //The structured log fields describing packet
+    //
+    //This is an internal method, don't call it directly.
+    protected static logFieldsOf(packet: Packet): LogFields {
+        var fields: LogFields = { fctype: FCTYPE[packet.FCType] };
+        if (packet instanceof JoinChanPacket || (packet instanceof ChatPacket && !(<ChatPacket>packet).isPrivate)) {
+            fields.room = (<JoinChanPacket|ChatPacket>packet).roomId;
+        }
+        if (packet instanceof SessionStatePacket || packet instanceof TipPacket) {
+            fields.uid = (<SessionStatePacket|TipPacket>packet).modelId;
         }
-        log(msg);
+        return fields;
     }
 
-    /*Reads data from the socket as quickly as possible and stores it in an internal buffer
+    /*Reads data from the socket as quickly as possible and hands each complete
+    packet it contains to _packetReceived.  Partial packets are kept by the
+    decoder until the rest of the packet arrives.
     readData is invoked by the "on data" event of the net.client object currently handling
     the TCP connection to the MFC servers.
 
+    If the data can't be decoded, a "CLIENT_PROTOCOL_ERROR" event is emitted
+    with the Error describing the problem and the connection is dropped, as
+    there's no way to find the start of the next packet in a corrupt stream.
+
     This is an internal method, don't call it directly.*/
-    private _readData(buf: Buffer): void {
-        this.streamBuffer = Buffer.concat([this.streamBuffer, buf]);
+    protected _readData(buf: Buffer): void {
+        if (this.recorder !== undefined) {
+            this.recorder.record("in", buf);
+        }
+        var packets = this.decoder.write(buf);
+        for (var i = 0; i < packets.length; i++) {
+            this._packetReceived(packets[i]);
+        }
 
-        //The new buffer might contain a complete packet, try to read to find out...
-        this._readPacket();
+        if (this.decoder.error !== undefined) {
+            this.protocolError(this.decoder.error);
+        }
+    }
+
+    //Drops the connection after we received something that can't be
+    //decoded, either by our decoder or by the transport itself
+    //
+    //This is an internal method, don't call it directly.
+    private protocolError(err: Error): void {
+        this.log("Protocol error, dropping the connection: " + err.message, LogLevel.Error);
+        this.dropConnection();
+        this.emit("CLIENT_PROTOCOL_ERROR", err);
     }
 
     /*Called with a single, complete, packet.  This function processes the packet,
@@ -74,144 +233,95 @@ class Client implements NodeJS.EventEmitter {
 
     This is an internal method, don't call it directly.*/
     private _packetReceived(packet: Packet): void {
-        this.log(packet.toString(), true);
+        this.log(packet.toString(), LogLevel.Trace, Client.logFieldsOf(packet));
 
         //Special case handling the login packet that gives your username and session ID
-        if (packet.FCType === FCTYPE.LOGIN) {
-            if (packet.nArg1 !== 0) {
-                this.log("Login failed for user '" + this.username + "' password '" + this.password + "'");
-                throw new Error("Login failed");
+        if (packet instanceof LoginPacket) {
+            if (!packet.succeeded) {
+                this.loginFailed(packet.responseCode);
             } else {
-                this.sessionId = packet.nTo;
-                this.uid = packet.nArg2;
-                this.username = <string>packet.sMessage;
+                this.sessionId = packet.sessionId;
+                this.uid = packet.userId;
+                this.username = packet.chatName;
+                this.reconnectAttempts = 0;
                 this.log("Login handshake completed. Logged in as '" + this.username + "' with sessionId " + this.sessionId);
+                this.rejoinRooms();
             }
         }
 
         //Another special case for sessionstate updates, update our global user status tracking
-        if (packet.FCType === FCTYPE.SESSIONSTATE) {
-            var id = packet.nArg2; //For SESSIONSTATE, nArg2 is the model id
-            var payload = packet.sMessage;
-
-            Model.getModel(id).mergePacket(packet);
+        if (packet instanceof SessionStatePacket) {
+            this.models.getModel(packet.modelId).mergePacket(packet);
         }
         //And the same for tags updates
-        if (packet.FCType === FCTYPE.TAGS) {
-            var tagPayload: any = packet.sMessage;
-            for (var key in tagPayload) {
-                if (tagPayload.hasOwnProperty(key)) {
-                    Model.getModel(key).mergePacket(packet);
-                }
-            }
+        if (packet instanceof TagsPacket) {
+            packet.modelIds.forEach((id: number) => {
+                this.models.getModel(id).mergePacket(packet);
+            });
+        }
+        //And room membership changes
+        if (packet instanceof JoinChanPacket) {
+            this.getRoom(packet.roomId).mergePacket(packet);
+        }
+        //And chat in the rooms we're tracking, for their history
+        if (packet instanceof ChatPacket && !packet.isPrivate && this.rooms.hasOwnProperty(<any>packet.roomId)) {
+            this.rooms[packet.roomId].chatReceived(packet);
         }
 
         //Fire this packet's event for any listeners
         this.emit(FCTYPE[packet.FCType], packet);
         this.emit(FCTYPE[FCTYPE.ANY], packet);
-    }
-
-    /*Parses the MFC stream buffer, for each complete individual packet
-    it receives, it will call packetReceived.  Because of the single-threaded async nature of node.js, there will often be
-    partial packets and need to handle that gracefully, only calling packetReceived once
-    we've parsed out a complete response...
 
-    This is an internal method, don't call it directly.*/
-    private _readPacket(): void {
-        var pos: number = this.streamBufferPosition;
-        var intParams: number[] = [];
-        var strParam: string;
-
-        try {
-            //Each incoming packet is initially tagged with 7 int32 values, they look like this:
-            // 0 = "Magic" value that is *always* -2027771214
-            // 1 = "FCType" that identifies the type of packet this is (FCType being a MyFreeCams defined thing)
-            // 2 = nFrom
-            // 3 = nTo
-            // 4 = nArg1
-            // 5 = nArg2
-            // 6 = sPayload, the size of the payload
-            // 7 = sMessage, the actual payload.  This is not an int but is the actual buffer
-
-            //Any read here could throw a RangeError exception for reading beyond the end of the buffer.  In theory we could handle this
-            //better by checking the length before each read, but that would be a bit ugly.  Instead we handle the RangeErrors and just
-            //try to read again the next time the buffer grows and we have more data
-
-
-            //Parse out the first 7 integer parameters (Magic, FCType, nFrom, nTo, nArg1, nArg2, sPayload)
-            for (var i = 0; i < 7; i++) {
-                intParams.push(this.streamBuffer.readInt32BE(pos));
-                pos += 4;
-            }
-            //If the first integer is MAGIC, we have a valid packet
-            if (intParams[0] === MAGIC) {
-                //If there is a JSON payload to this packet
-                if (intParams[6] > 0) {
-                    //If we don't have the complete payload in the buffer already, bail out and retry after we get more data from the network
-                    if (pos + intParams[6] > this.streamBuffer.length) {
-                        throw new RangeError(); //This is needed because streamBuffer.toString will not throw a rangeerror when the last param is out of the end of the buffer
-                    }
-                    //We have the full packet, store it and move our buffer pointer to the next packet
-                    strParam = this.streamBuffer.toString('utf8', pos, pos + intParams[6]);
-                    pos = pos + intParams[6];
-                }
-            } else {
-                //Magic value did not match?  In that case, all bets are off.  We no longer understand the MFC stream and cannot recover...
-                //This is usually caused by a mis-alignment error due to incorrect buffer management (bugs in this code or the code that writes the buffer from the network)
-                throw new Error("Invalid packet received! - " + intParams[0] + " Length == " + this.streamBuffer.length);
+        //And then the friendlier events derived from it
+        if (packet instanceof TipPacket) {
+            if (typeof (<TipPacket>packet).modelId !== 'number') {
+                this.log("Ignoring a tip without a model: " + JSON.stringify(packet.sMessage), LogLevel.Warn, Client.logFieldsOf(packet));
+                return;
             }
+            var tip = new Tip(<TipPacket>packet);
+            this.emit("tip", tip);
+            tip.model.emit("tip", tip);
+            this.models.emit("tip", tip);
+        }
+    }
 
-            //At this point we have the full packet in the intParams and strParam values, but intParams is an unstructured array
-            //Let's clean it up before we delegate to this.packetReceived.  (Leaving off the magic int, because it MUST be there always
-            //and doesn't add anything to the understanding)
-            var strParam2: AnyMessage;
-            if (strParam) {
-                try {
-                    strParam2 = JSON.parse(strParam);
-                } catch (e) {
-                    strParam2 = strParam;
-                }
-            }
-            this._packetReceived(new Packet(
-                this, //Packet needs to look up certain values in the Client object instance
-                intParams[1], //FCType
-                intParams[2], //nFrom
-                intParams[3], //nTo
-                intParams[4], //nArg1
-                intParams[5], //nArg2
-                intParams[6], //sPayload
-                strParam2 //sMessage
-                ));
-
-            //If there's more to read, keep reading (which would be the case if the network sent >1 complete packet in a single transmission)
-            if (pos < this.streamBuffer.length) {
-                this.streamBufferPosition = pos;
-                this._readPacket();
-            } else {
-                //We read the full buffer, clear the buffer cache so that we can
-                //read cleanly from the beginning next time (and save memory)
-                this.streamBuffer = new Buffer(0);
-                this.streamBufferPosition = 0;
-            }
-        } catch (e) {
-            //RangeErrors are expected because sometimes the buffer isn't complete.  Other errors are not...
-            if (e.toString().indexOf("RangeError") !== 0) {
-                throw e;
-            } else {
-                // this.log("Expected exception (?): " + e);
-            }
+    //Handles a refused login according to our LoginFailurePolicy, after
+    //letting everyone know about it via "CLIENT_LOGIN_FAILED"
+    //
+    //This is an internal method, don't call it directly.
+    private loginFailed(code: FCRESPONSE): void {
+        this.log("Login failed for user '" + this.loginUsername + "': " + FCRESPONSE[code], LogLevel.Warn);
+        var retryAsGuest = this.willRetryAsGuest();
+        this.emit("CLIENT_LOGIN_FAILED", code);
+
+        if (retryAsGuest) {
+            this.log("Logging in as a guest instead");
+            this.login("guest", "guest");
+        } else if (this.loginFailurePolicy === LoginFailurePolicy.RetryWithBackoff && this.reconnectOptions !== undefined) {
+            //Dropping the connection lets the reconnect logic pace the retries
+            this.dropConnection();
+        } else {
+            this.disconnect();
         }
     }
 
+    //True if the next login failure will be answered by logging in as a guest
+    //
+    //This is an internal method, don't call it directly.
+    private willRetryAsGuest(): boolean {
+        return this.loginFailurePolicy === LoginFailurePolicy.RetryAsGuest && this.loginUsername !== "guest";
+    }
+
     //Takes an input chat string as you would type it in browser in an MFC
     //chat room, like "I am happy :mhappy", and formats the message as MFC
     //would internally before sending it to the server, "I am happy #~ue,2c9d2da6.gif,mhappy~#"
     //in the given example.
     //
     //On the MFC site, this code is part of the ParseEmoteInput function in
-    //http://www.myfreecams.com/mfc2/lib/mfccore.js, and it is especially convoluted
-    //code involving ajax requests back to the server depending on the text you're
-    //sending and a giant hashtable of known emotes.
+    //http://www.myfreecams.com/mfc2/lib/mfccore.js.  Here it's done by an
+    //EmoteEncoder using the emote table given to the constructor, see
+    //EmoteEncoder for the details.  Without an emote table, messages are
+    //sent without any emotes encoded.
     //
     //Note that if the text you want to send does not have any emotes, you can
     //directly use TxCmd with the raw string (or possibly the escape(string) but
@@ -225,21 +335,17 @@ class Client implements NodeJS.EventEmitter {
         rawMsg = rawMsg.replace(/`/g, "'");
         rawMsg = rawMsg.replace(/<~/g, "'");
         rawMsg = rawMsg.replace(/~>/g, "'");
-        this.ensureEmoteParserIsLoaded(function(msg: string, cb: EmoteParserCallback) {
-            this.emoteParser.Process(msg, cb);
-        }.bind(this, rawMsg, callback));
+        this.ensureEmoteEncoderIsLoaded(function() {
+            var used: EncodedEmote[] = [];
+            var encoded = this.emoteEncoder.encode(rawMsg, used);
+            callback(encoded, used);
+        }.bind(this));
     }
 
-    //Dynamically loads script code from MFC, massaging it with the given massager
-    //function first, and then passed the resulting instantiated object to the
-    //given callback.
-    //
-    //We try to use this sparingly as it opens us up to breaks from site changes.
-    //But it is still useful for the more complex or frequently updated parts
-    //of MFC.
-    private loadFromMFC(url: string, callback: (err: any, obj: any) => void, massager?: (src: string) => string): void {
+    //Downloads a JSON document from MFC and passes the parsed result to the
+    //given callback
+    private loadFromMFC(url: string, callback: (err: Error, obj: any) => void): void {
         var http: any = require('http');
-        var load: any = require('load');
         http.get(url, function(res: any) {
             var contents = '';
             res.on('data', function(chunk: string) {
@@ -247,94 +353,336 @@ class Client implements NodeJS.EventEmitter {
             });
             res.on('end', function() {
                 try {
-                    if (massager !== undefined) {
-                        contents = massager(contents);
-                    }
-                    var mfcModule = load.compiler(contents)
-                    callback(undefined, mfcModule);
+                    callback(undefined, JSON.parse(contents));
                 } catch (e) {
-                    callback(e, undefined);
+                    callback(new Error("loadFromMFC error while parsing '" + url + "' : " + e.message), undefined);
                 }
             });
         }).on('error', function(e: any) {
-            throw new Error("loadFromMFC error while loading '" + url + "' : " + e);
+            callback(new Error("loadFromMFC error while loading '" + url + "' : " + e), undefined);
         });
     }
 
-    //Loads the emote parsing code from the MFC web site directly, if it's not
-    //already loaded, and then invokes the given callback.  This is useful because
-    //most scripts won't actually need the emote parsing capabilities, so lazy
-    //loading it can speed up the common case.
-    //
-    //We're loading this code from the live site instead of re-coding it ourselves
-    //here because of the complexity of the code and the fact that it has changed
-    //several times in the past.
-    private ensureEmoteParserIsLoaded(callback: () => void): void {
-        if (this.emoteParser !== undefined) {
+    //Loads the emote table from the file given to the constructor, if that's
+    //where it comes from and it's not already loaded, and then invokes the
+    //given callback.  Most scripts won't actually need the emote encoding
+    //capabilities, so lazy loading it can speed up the common case.
+    private ensureEmoteEncoderIsLoaded(callback: () => void): void {
+        if (this.emoteEncoder !== undefined) {
             callback();
         } else {
-            this.loadFromMFC("http://www.myfreecams.com/mfc2/lib/mfccore.js", function(err: any, obj: any) {
-                if (err) throw err;
-                this.emoteParser = new obj.ParseEmoteInput();
+            EmoteEncoder.fromFile(this.emoteFile, function(err: Error, encoder: EmoteEncoder) {
+                if (err) {
+                    //Sending messages with unencoded emotes beats not sending them at all
+                    this.log("Unable to load emotes, sending messages without them: " + err.message, LogLevel.Warn);
+                    encoder = new EmoteEncoder();
+                }
+                this.emoteEncoder = encoder;
                 callback();
-            }.bind(this),
-                function(content) {
-                    //Massager....Yes this is vulnerable to site breaks, but then
-                    //so is this entire module.
-
-                    //First, pull out only the ParseEmoteInput function
-                    var startIndex = content.indexOf("function ParseEmoteInput()");
-                    var endIndex = content.indexOf("function ParseEmoteOutput()");
-                    console.assert(startIndex !== -1 && endIndex !== -1 && startIndex < endIndex, "mfccore.js layout has changed, don't know what to do now");
-                    content = content.substr(startIndex, endIndex - startIndex);
-
-                    //Then massage the function somewhat and prepend some prerequisites
-                    content = "var document = {location: {protocol: 'file:'}};var XMLHttpRequest = require('XMLHttpRequest').XMLHttpRequest;function bind(that,f){return f.bind(that);}" + content.replace(/createRequestObject\(\)/g, "new XMLHttpRequest()").replace(/new MfcImageHost\(\)/g, "{host: function(){return '';}}").replace(/this\.Reset\(\);/g, "this.Reset();this.oReq = new XMLHttpRequest();");
-                    return content;
-                });
+            }.bind(this));
         }
     }
 
-    //Loads the lastest server information from MFC, if it's not already loaded
-    private ensureServerConfigIsLoaded(callback: () => void): void {
-        if (this.serverConfig !== undefined) {
+    //Loads the lastest server information from MFC, if it's not already loaded,
+    //or from the local file given to the constructor.  There is nothing to load
+    //when we were told exactly which host to connect to.
+    private ensureServerConfigIsLoaded(callback: (err?: Error) => void): void {
+        if (this.serverConfig !== undefined || this.host !== undefined) {
             callback();
+        } else if (this.serverConfigFile !== undefined) {
+            var fs = require("fs");
+            fs.readFile(this.serverConfigFile, "utf8", function(err: Error, text: string) {
+                if (err) {
+                    callback(err);
+                    return;
+                }
+                try {
+                    this.serverConfig = JSON.parse(text);
+                } catch (e) {
+                    callback(new Error("Invalid server configuration in '" + this.serverConfigFile + "': " + e.message));
+                    return;
+                }
+                callback();
+            }.bind(this));
         } else {
-            this.loadFromMFC("http://www.myfreecams.com/mfc2/data/serverconfig.js", function(err: any, obj: any) {
-                if (err) throw err;
-                this.serverConfig = obj.serverConfig;
+            this.loadFromMFC("http://www.myfreecams.com/mfc2/data/serverconfig.js", function(err: Error, obj: ServerConfig) {
+                if (err) {
+                    callback(err);
+                    return;
+                }
+                this.serverConfig = obj;
                 callback();
-            }.bind(this), function(text) {
-                    return "var serverConfig = " + text;
+            }.bind(this));
+        }
+    }
+
+    //Picks the chat server host to connect to with the given transport,
+    //according to our server selection strategy, and passes it to callback,
+    //or an error if the server configuration doesn't list any
+    //
+    //This is an internal method, don't call it directly.
+    private selectChatServer(transport: Transport, callback: (err: Error, host?: string) => void): void {
+        if (this.host !== undefined) {
+            callback(undefined, this.host);
+            return;
+        }
+
+        var webSocket = transport.type === TransportType.WebSocket;
+        var servers = (webSocket ? Object.keys(this.serverConfig.websocket_servers || {}) : this.serverConfig.chat_servers) || [];
+        var noServer = () => new Error("No " + (webSocket ? "websocket_servers" : "chat_servers") + " to connect to in the MyFreeCams server configuration");
+        if (servers.length === 0) {
+            callback(noServer());
+            return;
+        }
+        var chosen = (server: string) => {
+            if (server === undefined) {
+                callback(noServer());
+                return;
+            }
+            this.chatServer = server;
+            callback(undefined, server + ".myfreecams.com");
+        };
+        var random = () => servers[Math.floor(Math.random() * servers.length)];
+
+        if (typeof this.serverSelection === 'function') {
+            chosen((<ChatServerSelector>this.serverSelection)(servers, this.chatServer));
+            return;
+        }
+        switch (<ServerSelection>this.serverSelection) {
+            case ServerSelection.RoundRobin:
+                chosen(servers[this.roundRobinIndex++ % servers.length]);
+                break;
+            case ServerSelection.Sticky:
+                chosen(this.chatServer !== undefined ? this.chatServer : random());
+                break;
+            case ServerSelection.LowestLatency:
+                this.findFastestServer(servers, this.portFor(transport), function(fastest: string) {
+                    chosen(fastest !== undefined ? fastest : random());
                 });
+                break;
+            default:
+                chosen(random());
+                break;
+        }
+    }
+
+    //Times how long it takes to open a TCP connection to port on each of the
+    //given chat servers, all at once, and passes the quickest to callback, or
+    //undefined if none could be reached within Client.latencyProbeTimeout
+    //
+    //This is an internal method, don't call it directly.
+    private findFastestServer(servers: string[], port: number, callback: (fastest: string) => void): void {
+        var fastest: string;
+        var remaining = servers.length;
+        var start = Date.now();
+        var done = () => {
+            if (--remaining === 0) {
+                this.log("Lowest latency chat server is " + fastest + " at " + (fastest !== undefined ? this.chatServerLatency + "ms" : "n/a"), LogLevel.Debug);
+                callback(fastest);
+            }
+        };
+        if (remaining === 0) {
+            callback(undefined);
+            return;
         }
+        servers.forEach((server: string) => {
+            var finished = false;
+            var probe = this.net.connect(port, server + ".myfreecams.com", () => {
+                var latency = Date.now() - start;
+                if (!finished) {
+                    finished = true;
+                    if (fastest === undefined || latency < this.chatServerLatency) {
+                        fastest = server;
+                        this.chatServerLatency = latency;
+                    }
+                    probe.destroy();
+                    done();
+                }
+            });
+            var failed = () => {
+                if (!finished) {
+                    finished = true;
+                    probe.destroy();
+                    done();
+                }
+            };
+            probe.on('error', failed);
+            probe.setTimeout(Client.latencyProbeTimeout, failed);
+        });
+    }
+
+    //The chat server port to connect to with the given transport
+    //
+    //This is an internal method, don't call it directly.
+    private portFor(transport: Transport): number {
+        return this.port !== undefined ? this.port : transport.defaultPort;
     }
 
     //Sends a message back to MFC in the expected packet format
     //usually nTo==0, nArg1==0, nArg2==0, sMsg==null
-    //@TODO - Should this use the Packet class instead or as an overload?
-    TxCmd(nType: FCTYPE, nTo: number = 0, nArg1: number = 0, nArg2: number = 0, sMsg: string = null): void {
-        this.log("TxCmd Sending - nType: " + nType + ", nTo: " + nTo + ", nArg1: " + nArg1 + ", nArg2: " + nArg2 + ", sMsg:" + sMsg, true);
+    //
+    //The packet goes out through sendQueue, so it may be delayed by the rate
+    //limits, or dropped if the connection is lost first.  Returns the Packet
+    //as queued.
+    TxCmd(nType: FCTYPE, nTo: number = 0, nArg1: number = 0, nArg2: number = 0, sMsg: string = null): Packet {
+        return this.sendPacket(this.createPacket(nType, nTo, nArg1, nArg2, sMsg));
+    }
+
+    //Builds the Packet TxCmd sends for the given fields, without sending it
+    //
+    //This is an internal method, don't call it directly.
+    protected createPacket(nType: FCTYPE, nTo: number = 0, nArg1: number = 0, nArg2: number = 0, sMsg: string = null): Packet {
         if (nType === FCTYPE.CMESG || nType === FCTYPE.PMESG) {
             if (sMsg.match(/([\u0000-\u001f\u0022-\u0026\u0080-\uffff]+)/)) sMsg = escape(sMsg).replace(/%20/g, " ");
         }
 
-        var msgLength = (sMsg ? sMsg.length : 0);
-        var buf = new Buffer((7 * 4) + msgLength);
+        //Session id, this is always our nFrom value
+        return new Packet(this, nType, this.sessionId, nTo, nArg1, nArg2, 0, sMsg);
+    }
 
-        buf.writeInt32BE(MAGIC, 0);
-        buf.writeInt32BE(nType, 4);
-        buf.writeInt32BE(this.sessionId, 8); //Session id, this is always our nFrom value
-        buf.writeInt32BE(nTo, 12);
-        buf.writeInt32BE(nArg1, 16);
-        buf.writeInt32BE(nArg2, 20);
-        buf.writeInt32BE(msgLength, 24);
+    //Queues a packet from createPacket on sendQueue and returns it
+    //
+    //This is an internal method, don't call it directly.
+    protected sendPacket(packet: Packet): Packet {
+        this.log("TxCmd Sending - nType: " + packet.FCType + ", nTo: " + packet.nTo + ", nArg1: " + packet.nArg1 + ", nArg2: " + packet.nArg2 + ", sMsg:" + packet.redactedMessage, LogLevel.Trace, { fctype: FCTYPE[packet.FCType] });
+        this.sendQueue.send(packet, Client.priorityOf(packet.FCType));
+        return packet;
+    }
 
-        if (sMsg) {
-            buf.write(sMsg, 28);
+    //Whether code is one of the nArg2 codes the server refuses a CMESG or
+    //PMESG with
+    private static isSendError(code: number): boolean {
+        switch (code) {
+            case FCCHAN.ERR_GUESTMUTE:
+            case FCCHAN.ERR_GROUPMUTE:
+            case FCCHAN.ERR_CONTENT:
+            case FCRESPONSE.NOACCESS:
+                return true;
+            default:
+                return false;
         }
+    }
 
-        this.client.write(buf);
+    //Which SendQueue lane packets of the given type belong in
+    private static priorityOf(nType: FCTYPE): SendPriority {
+        switch (nType) {
+            case FCTYPE.LOGIN:
+            case FCTYPE.NULL:
+            case FCTYPE.JOINCHAN:
+                return SendPriority.Control;
+            case FCTYPE.CMESG:
+            case FCTYPE.PMESG:
+                return SendPriority.Chat;
+            default:
+                return SendPriority.Normal;
+        }
+    }
+
+    //Returns a promise for the next received packet of the given FCTYPE for
+    //which predicate, if given, returns true.  The promise is rejected if
+    //timeout milliseconds pass first, or if the connection is lost.  A
+    //timeout of 0 waits forever.  If request, the packet we sent that this is
+    //the response to, is given, the promise is also rejected as soon as
+    //sendQueue drops it.
+    waitForPacket(fctype: FCTYPE, predicate?: (packet: Packet) => boolean, timeout: number = 0, request?: Packet): Promise<Packet> {
+        return new Promise<Packet>((resolve, reject) => {
+            var timer: NodeJS.Timer;
+            var onPacket = (packet: Packet) => {
+                if (predicate === undefined || predicate(packet)) {
+                    cleanup();
+                    resolve(packet);
+                }
+            };
+            var onDisconnected = () => {
+                cleanup();
+                reject(new Error("Disconnected while waiting for " + FCTYPE[fctype]));
+            };
+            var onDropped = (dropped: Packet, reason: DropReason) => {
+                if (dropped === request) {
+                    cleanup();
+                    reject(new Error(FCTYPE[request.FCType] + " was dropped by the send queue (" + DropReason[reason] + ")"));
+                }
+            };
+            var cleanup = () => {
+                clearTimeout(timer);
+                this.removeListener(FCTYPE[fctype], onPacket);
+                this.removeListener("CLIENT_DISCONNECTED", onDisconnected);
+                this.removeListener("CLIENT_SEND_DROPPED", onDropped);
+            };
+            this.on(FCTYPE[fctype], onPacket);
+            this.on("CLIENT_DISCONNECTED", onDisconnected);
+            if (request !== undefined) {
+                this.on("CLIENT_SEND_DROPPED", onDropped);
+            }
+            if (timeout > 0) {
+                timer = setTimeout(() => {
+                    cleanup();
+                    reject(new Error("Timed out after " + timeout + "ms waiting for " + FCTYPE[fctype]));
+                }, timeout);
+            }
+        });
+    }
+
+    //Sends a command with TxCmd and returns a promise for its response, which
+    //is the first packet of the same FCTYPE received afterwards for which
+    //predicate returns true.  See waitForPacket for how timeout works.
+    txCmdAndWait(fctype: FCTYPE, predicate: (packet: Packet) => boolean, timeout: number = Client.defaultResponseTimeout, nTo: number = 0, nArg1: number = 0, nArg2: number = 0, sMsg: string = null): Promise<Packet> {
+        //Listen before sending, so even an immediate response, or the request
+        //being dropped right away, can't be missed
+        var request = this.createPacket(fctype, nTo, nArg1, nArg2, sMsg);
+        var response = this.waitForPacket(fctype, predicate, timeout, request);
+        this.sendPacket(request);
+        return response;
+    }
+
+    //Looks up a user, by name or by user id, and returns a promise for the
+    //corresponding Model with the returned details merged in.  The promise
+    //resolves to undefined if no such user exists, and rejects if the server
+    //reports an error or doesn't respond within timeout milliseconds.
+    //
+    //Each lookup is tagged with its own query id in nArg1, which the server
+    //echoes in its response, so any number of lookups can be in flight at once.
+    //Logging in is not required for this.
+    queryUser(user: string|number, timeout: number = Client.defaultResponseTimeout): Promise<ExpandedModel> {
+        var queryId = this.nextQueryId;
+        this.nextQueryId = this.nextQueryId < 0x7FFFFFFF ? this.nextQueryId + 1 : 20;
+
+        var byName = typeof user === 'string';
+        var lookup = this.txCmdAndWait(FCTYPE.USERNAMELOOKUP, function(packet: Packet) {
+            return packet.nArg1 === queryId;
+        }, timeout, 0, queryId, byName ? 0 : <number>user, byName ? <string>user : null);
+
+        return lookup.then((packet: UserNameLookupPacket): ExpandedModel => {
+            //Found users come back as a full Message, anything else (an empty
+            //payload or just the name we asked about) means no details
+            var found = packet.user;
+            if (found !== undefined && found.uid !== undefined) {
+                var model = this.models.getModel(found.uid);
+                model.mergePacket(packet);
+                return model;
+            }
+            switch (packet.responseCode) {
+                case FCRESPONSE.ERROR:
+                case FCRESPONSE.NOACCESS:
+                case FCRESPONSE.SUSPEND:
+                case FCRESPONSE.SHUTOFF:
+                    throw new Error("USERNAMELOOKUP for '" + user + "' failed: " + FCRESPONSE[packet.responseCode]);
+                default:
+                    //NO_RESULTS, INVALIDUSER, etc
+                    return undefined;
+            }
+        });
+    }
+
+    //Helper for promises returned by methods that used to return nothing.
+    //Scripts written before then call those methods without ever looking at
+    //the result, and shouldn't get unhandled rejection warnings for it.
+    //Anyone who does use the promise still sees the rejection.
+    //
+    //This is an internal method, don't call it directly.
+    protected ignoreUnhandled<T>(promise: Promise<T>): Promise<T> {
+        promise.catch(function() { return undefined; });
+        return promise;
     }
 
     //Send msg to the given model's chat room.  Set format to true
@@ -345,21 +693,17 @@ class Client implements NodeJS.EventEmitter {
     //Note that you must have previously joined the model's chat room
     //for the message to be sent successfully.
     //
-    //Also note, this method has no callback currently, and your message
-    //may fail to be sent successfully if you are muted or ignored by
-    //the model.
-    sendChat(id: number, msg: string, format: boolean = false): void {
-        if (format === true) {
-            this.EncodeRawChat(msg, function(parsedMsg: string) {
-                this.sendChat(id, parsedMsg, false);
-            }.bind(this));
-        } else {
-            //Convert a user ID to the corresponding room ID (unless it's already a room ID)
-            if (id < 100000000) {
-                id = id + 100000000;
-            }
-            this.TxCmd(FCTYPE.CMESG, id, 0, 0, msg);
+    //Returns a promise for the server's echo of the message to the room,
+    //which is how we know it was accepted.  It rejects with a SendError if
+    //the server refuses the message, because we're a muted guest or the
+    //content isn't allowed for instance, if the message is dropped by
+    //sendQueue, or if the echo doesn't arrive within timeout milliseconds.
+    sendChat(id: number, msg: string, format: boolean = false, timeout: number = Client.defaultResponseTimeout): Promise<ChatPacket> {
+        //Convert a user ID to the corresponding room ID (unless it's already a room ID)
+        if (id < 100000000) {
+            id = id + 100000000;
         }
+        return this.sendMessage(FCTYPE.CMESG, id, msg, format, timeout);
     }
 
     //Send msg to the given model via PM.  Set format to true
@@ -367,36 +711,142 @@ class Client implements NodeJS.EventEmitter {
     //considerable processing time by leaving it false and sending the
     //raw string.
     //
-    //Also note, this method has no callback currently, and your message
-    //may fail to be sent successfully if you are ignored by the model or
-    //do not have PM access (due to being a guest, etc).
-    sendPM(id: number, msg: string, format: boolean = false): void {
-        if (format === true) {
-            this.EncodeRawChat(msg, function(parsedMsg: string) {
-                this.sendPM(id, parsedMsg, false);
-            }.bind(this));
-        } else {
-            assert(id < 100000000, "You can't send a PM to a room.  Choose a specific user id.");
-            this.TxCmd(FCTYPE.PMESG, id, 0, 0, msg);
+    //Returns a promise like sendChat's, for the server's echo of the PM.
+    //It rejects if we're ignored by the model or don't have PM access (due to
+    //being a guest, etc).
+    sendPM(id: number, msg: string, format: boolean = false, timeout: number = Client.defaultResponseTimeout): Promise<ChatPacket> {
+        assert(id < 100000000, "You can't send a PM to a room.  Choose a specific user id.");
+        return this.sendMessage(FCTYPE.PMESG, id, msg, format, timeout);
+    }
+
+    //Encodes the emotes in msg if asked to, and then sends it with
+    //sendAndConfirm
+    //
+    //This is an internal method, don't call it directly.
+    private sendMessage(nType: FCTYPE, to: number, msg: string, format: boolean, timeout: number): Promise<ChatPacket> {
+        if (!format) {
+            return this.ignoreUnhandled(this.sendAndConfirm(nType, to, msg, timeout));
         }
+        var encoded = new Promise<string>((resolve) => this.EncodeRawChat(msg, resolve));
+        return this.ignoreUnhandled(encoded.then((text: string) => this.sendAndConfirm(nType, to, text, timeout)));
+    }
+
+    //Sends a CMESG or PMESG and waits for the server to either echo it back
+    //to us or answer with an error about it
+    //
+    //This is an internal method, don't call it directly.
+    private sendAndConfirm(nType: FCTYPE, to: number, text: string, timeout: number): Promise<ChatPacket> {
+        return new Promise<ChatPacket>((resolve, reject) => {
+            var timer: NodeJS.Timer;
+            //Built before it's queued, as the queue may drop it right away
+            var packet = this.createPacket(nType, to, 0, 0, text);
+            var wentOut = false;
+            var fail = (message: string, code?: number) => {
+                cleanup();
+                var err = <SendError>new Error(FCTYPE[nType] + " to " + to + " failed: " + message);
+                err.code = code;
+                reject(err);
+            };
+            var onPacket = (reply: ChatPacket) => {
+                if (reply.nTo !== to && reply.nArg1 !== to) {
+                    return;
+                }
+                var msg = reply.sMessage;
+                var hasPayload = msg !== undefined && msg !== null;
+                var fromUs = hasPayload && (msg.uid === this.uid || (msg.sid !== undefined && msg.sid === this.sessionId));
+                if (fromUs && typeof msg.msg === 'string' && unescape(msg.msg) === text) {
+                    cleanup();
+                    resolve(reply);
+                } else if (!hasPayload && wentOut && Client.isSendError(reply.nArg2)) {
+                    //Only a bare reply, once ours has gone out, is an error
+                    //about it.  Other messages' nArg2 means something else,
+                    //like FCCHAN.OLDMSG for backlog lines.
+                    fail(reply.nArg2 === FCRESPONSE.NOACCESS ? "NOACCESS" : FCCHAN[reply.nArg2], reply.nArg2);
+                }
+            };
+            var onSent = (sent: Packet) => {
+                if (sent === packet) {
+                    wentOut = true;
+                }
+            };
+            var onDropped = (dropped: Packet, reason: DropReason) => {
+                if (dropped === packet) {
+                    fail("Dropped by the send queue (" + DropReason[reason] + ")");
+                }
+            };
+            var onDisconnected = () => {
+                fail("Disconnected before the server confirmed it");
+            };
+            var cleanup = () => {
+                clearTimeout(timer);
+                this.removeListener(FCTYPE[nType], onPacket);
+                this.sendQueue.removeListener("sent", onSent);
+                this.removeListener("CLIENT_SEND_DROPPED", onDropped);
+                this.removeListener("CLIENT_DISCONNECTED", onDisconnected);
+            };
+            this.on(FCTYPE[nType], onPacket);
+            this.sendQueue.on("sent", onSent);
+            this.on("CLIENT_SEND_DROPPED", onDropped);
+            this.on("CLIENT_DISCONNECTED", onDisconnected);
+            if (timeout > 0) {
+                timer = setTimeout(() => fail("Timed out after " + timeout + "ms waiting for the server to confirm it"), timeout);
+            }
+            this.sendPacket(packet);
+        });
     }
 
-    //Joins the chat room of the given model
-    joinRoom(id: number): void {
+    //Returns the Room tracking the chat room of the given model.  This works
+    //for any room, but only rooms we've joined are kept up to date.
+    getRoom(id: number): Room {
         //Convert a user ID to the corresponding room ID (unless it's already a room ID)
         if (id < 100000000) {
             id = id + 100000000;
         }
-        this.TxCmd(FCTYPE.JOINCHAN, 0, id, FCCHAN.JOIN);
+        if (!this.rooms.hasOwnProperty(<any>id)) {
+            this.rooms[id] = new Room(this, id);
+        }
+        return this.rooms[id];
+    }
+
+    //Joins the chat room of the given model, the room is joined again
+    //automatically whenever the client reconnects
+    //
+    //Returns a promise for the server's JOINCHAN acknowledgement of our own
+    //join.  It rejects with a RoomError if the server refuses, or if that
+    //doesn't arrive within the timeout.  The room's Room, from getRoom(),
+    //tracks the membership of the room from then on.
+    //
+    //options may also be just the timeout in milliseconds.  With the history
+    //option the server sends the room's recent chat backlog too, which the
+    //Room emits as a "history" event.  Rejoins after a reconnect never ask
+    //for the backlog again, so it isn't delivered twice.
+    joinRoom(id: number, options: JoinRoomOptions|number = {}): Promise<Packet> {
+        var opts: JoinRoomOptions = typeof options === "number" ? { timeout: <number>options } : <JoinRoomOptions>options;
+        var timeout = opts.timeout !== undefined ? opts.timeout : Client.defaultResponseTimeout;
+        var room = this.getRoom(id);
+        this.joinedRooms[room.id] = true;
+        room.reset(RoomState.Joining);
+
+        var response = this.txCmdAndWait(FCTYPE.JOINCHAN, function(packet: JoinChanPacket) {
+            return packet.roomId === room.id && (room.state === RoomState.Joined || room.state === RoomState.Error);
+        }, timeout, 0, room.id, opts.history ? FCCHAN.JOIN | FCCHAN.HISTORY : FCCHAN.JOIN);
+
+        return this.ignoreUnhandled(response.then(function(packet: Packet) {
+            if (room.state === RoomState.Error) {
+                var err = <RoomError>new Error("Unable to join room " + room.id + ": " + FCCHAN[room.error]);
+                err.code = room.error;
+                throw err;
+            }
+            return packet;
+        }));
     }
 
     //Leaves the chat room of the given model
     leaveRoom(id: number): void {
-        //Convert a user ID to the corresponding room ID (unless it's already a room ID)
-        if (id < 100000000) {
-            id = id + 100000000;
-        }
-        this.TxCmd(FCTYPE.JOINCHAN, 0, id, FCCHAN.PART); //@TODO - Confirm that this works, it's not been tested
+        var room = this.getRoom(id);
+        delete this.joinedRooms[room.id];
+        room.reset(RoomState.Left);
+        this.TxCmd(FCTYPE.JOINCHAN, 0, room.id, FCCHAN.PART); //@TODO - Confirm that this works, it's not been tested
     }
 
     //Connects to MFC and optionally logs in with the credentials you supplied when
@@ -405,38 +855,268 @@ class Client implements NodeJS.EventEmitter {
     //Logging in is optional because not all queries to the server require you to log in.
     //For instance, MFC servers will respond to a USERNAMELOOKUP request without
     //requiring a login.
-    connect(doLogin: boolean = true, onConnect: () => void = undefined): void {
+    //
+    //If the connection is lost later, the client reconnects on its own according
+    //to the reconnect option it was constructed with, logs in again if this call
+    //logged in, and rejoins every room that was joined with joinRoom and not left
+    //since.  onConnect is only invoked for this initial connection.
+    //
+    //Returns a promise that resolves once the login handshake has completed and
+    //sessionId and uid are set, or as soon as the socket is open when not
+    //logging in.  It rejects if the connection is lost before then, or if the
+    //login is refused, with a LoginError giving the server's FCRESPONSE code.
+    //With LoginFailurePolicy.RetryAsGuest, a refused login instead resolves
+    //once we're logged in as a guest.
+    connect(doLogin: boolean = true, onConnect: () => void = undefined): Promise<void> {
+        //A connection that hasn't finished closing yet, after disconnect() for
+        //instance, is dropped for good first.  Nothing it emits from now on,
+        //like a late 'close', may touch the new one.
+        if (this.transport !== undefined) {
+            var previous = this.transport;
+            previous.removeAllListeners();
+            previous.on('error', function(): void { return undefined; });
+            previous.destroy();
+            this.connectionEnded();
+        }
+
+        var fail: (err: Error) => void;
+        var ready = new Promise<void>((resolve, reject) => {
+            var onReady = (packet?: Packet) => {
+                if (packet === undefined || packet.nArg1 === 0) {
+                    cleanup();
+                    resolve();
+                }
+            };
+            var onLoginFailed = (code: FCRESPONSE) => {
+                if (this.willRetryAsGuest()) {
+                    return;
+                }
+                cleanup();
+                var err = <LoginError>new Error("Login failed: " + FCRESPONSE[code]);
+                err.code = code;
+                reject(err);
+            };
+            var onDisconnected = () => {
+                cleanup();
+                reject(new Error("Disconnected before " + (doLogin ? "logging in" : "connecting")));
+            };
+            var readyEvent = doLogin ? FCTYPE[FCTYPE.LOGIN] : "CLIENT_CONNECTED";
+            var cleanup = () => {
+                this.removeListener(readyEvent, onReady);
+                this.removeListener("CLIENT_LOGIN_FAILED", onLoginFailed);
+                this.removeListener("CLIENT_DISCONNECTED", onDisconnected);
+            };
+            fail = (err: Error) => {
+                cleanup();
+                reject(err);
+            };
+            this.on(readyEvent, onReady);
+            this.on("CLIENT_LOGIN_FAILED", onLoginFailed);
+            this.on("CLIENT_DISCONNECTED", onDisconnected);
+        });
+
+        this.doLogin = doLogin;
+        this.disconnecting = false;
+        clearTimeout(this.reconnectTimer);
+        var transport = this.transportFactory();
+
         //Reset any read buffers so we are in a consistent state
-        this.streamBuffer = new Buffer(0);
-        this.streamBufferPosition = 0;
+        this.decoder.reset();
+
+        this.ensureServerConfigIsLoaded(function(err: Error) {
+            if (err) {
+                this.log("Unable to load the MyFreeCams server configuration: " + err.message, LogLevel.Error);
+                fail(err);
+                return;
+            }
+            this.selectChatServer(transport, function(err: Error, chatServer: string) {
+                if (err) {
+                    this.log("Unable to choose a chat server: " + err.message, LogLevel.Error);
+                    fail(err);
+                    return;
+                }
+                this.log("Connecting to MyFreeCams chat server " + chatServer + "...");
+                this.transport = transport;
+                transport.on('connect', function() {
+                    if (transport !== this.transport) {
+                        return;
+                    }
+                    //If we're logging in, only a successful login counts as being back
+                    if (!doLogin) {
+                        this.reconnectAttempts = 0;
+                    }
+                    if (this.recorder !== undefined) {
+                        this.recorder.record("connect");
+                    }
+                    this.emit("CLIENT_CONNECTED");
 
-        this.ensureServerConfigIsLoaded(function() {
-            var chatServer = this.serverConfig.chat_servers[Math.floor(Math.random() * this.serverConfig.chat_servers.length)];
+                    //Connecting without logging in is the rarer case, so make the default to log in
+                    if (doLogin) {
+                        this.login();
+                    } else {
+                        this.rejoinRooms();
+                    }
 
-            this.log("Connecting to MyFreeCams chat server " + chatServer + "...");
-            this.client = this.net.connect(8100, chatServer + ".myfreecams.com", function() { //'connect' listener
-                this.client.on('data', function(data: any) {
-                    this._readData(data);
+                    //Also should make this an optional separate function too (maybe, maybe not)
+                    this.keepAlive = setInterval(function() { this.TxCmd(FCTYPE.NULL, 0, 0, 0, null); }.bind(this), 120 * 1000);
+                    if (onConnect !== undefined) {
+                        onConnect();
+                    }
+                }.bind(this));
+                transport.on('data', function(data: Buffer) {
+                    if (transport === this.transport) {
+                        this._readData(data);
+                    }
                 }.bind(this));
-                this.client.on('end', function() {
-                    this.log('Disconnected from MyFreeCams.  Reconnecting in 30 seconds...'); // Is 30 seconds reasonable?
-                    clearInterval(this.keepAlive);
-                    setTimeout(this.connect, 30000);
+                //'error' is always followed by 'close', which is where we clean up
+                transport.on('error', function(err: any) {
+                    if (transport === this.transport) {
+                        this.log("Connection error: " + err, LogLevel.Warn);
+                    }
+                }.bind(this));
+                transport.on('protocolError', function(err: Error) {
+                    if (transport === this.transport) {
+                        this.protocolError(err);
+                    }
+                }.bind(this));
+                transport.on('close', function() {
+                    if (transport === this.transport) {
+                        this.socketClosed();
+                    }
                 }.bind(this));
 
-                //Connecting without logging in is the rarer case, so make the default to log in
-                if (doLogin) {
-                    this.login();
-                }
-
-                //Also should make this an optional separate function too (maybe, maybe not)
-                this.keepAlive = setInterval(function() { this.TxCmd(FCTYPE.NULL, 0, 0, 0, null); }.bind(this), 120 * 1000);
-                if (onConnect !== undefined) {
-                    onConnect();
-                }
+                transport.connect(chatServer, this.portFor(transport));
+                this.sendQueue.attach(transport);
             }.bind(this));
-
         }.bind(this));
+
+        return this.ignoreUnhandled(ready);
+    }
+
+    //Drops the connection at once, without a goodbye, leaving it to
+    //socketClosed to decide whether to reconnect
+    //
+    //This is an internal method, don't call it directly.
+    protected dropConnection(): void {
+        if (this.transport !== undefined) {
+            this.transport.destroy();
+        }
+    }
+
+    //Starts recording all traffic of this client to the capture file at
+    //path, appending if it already exists, see CaptureRecorder.  Any capture
+    //already in progress is stopped first.
+    startCapture(path: string): void {
+        this.stopCapture();
+        this.recorder = new CaptureRecorder(path, this.logger);
+    }
+
+    //Stops recording traffic, callback is invoked once the capture file is
+    //completely written
+    stopCapture(callback?: () => void): void {
+        if (this.recorder !== undefined) {
+            this.recorder.close(callback);
+            this.recorder = undefined;
+        } else if (callback !== undefined) {
+            callback();
+        }
+    }
+
+    //Closes the connection to MFC without reconnecting afterwards
+    disconnect(): void {
+        this.disconnecting = true;
+        clearTimeout(this.reconnectTimer);
+        //Anything the rate limits are still holding back won't make it
+        this.sendQueue.detach();
+        if (this.transport !== undefined) {
+            this.transport.end();
+        }
+    }
+
+    //Disconnects for good and releases the models this client kept, for
+    //when the client is no longer needed.  If this client adopted
+    //ModelRegistry.defaultRegistry, its models are cleared from it and the
+    //next Client created adopts it instead, while any Model.on() listeners
+    //stay in place.  A registry the client created for itself is disposed
+    //of, and one given with the models option is left as it is.
+    dispose(): void {
+        this.disconnect();
+        this.stopCapture();
+        if (this.adoptedDefaultRegistry) {
+            this.adoptedDefaultRegistry = false;
+            Client.defaultRegistryAdopted = false;
+            this.models.clear();
+        } else if (this.createdRegistry) {
+            this.createdRegistry = false;
+            this.models.dispose();
+        }
+    }
+
+    //Handles the end of a connection, whether it's because of a network
+    //problem, the server hanging up on us, or a call to disconnect(), and
+    //schedules the next reconnect attempt if we should reconnect
+    //
+    //This is an internal method, don't call it directly.
+    protected socketClosed(): void {
+        this.connectionEnded();
+
+        if (this.disconnecting || this.reconnectOptions === undefined) {
+            this.log("Disconnected from MyFreeCams.");
+            return;
+        }
+
+        var options = this.reconnectOptions;
+        this.reconnectAttempts++;
+        if (options.maxAttempts > 0 && this.reconnectAttempts > options.maxAttempts) {
+            this.log("Disconnected from MyFreeCams.  Giving up after " + options.maxAttempts + " reconnect attempts.", LogLevel.Error);
+            this.emit("CLIENT_RECONNECT_FAILED", options.maxAttempts);
+            return;
+        }
+
+        //Exponential backoff, randomly spread by up to jitter in either
+        //direction so a server restart doesn't get every client back at once
+        var delay = Math.min(options.maxDelay, options.initialDelay * Math.pow(options.factor, this.reconnectAttempts - 1));
+        delay = Math.round(delay * (1 + options.jitter * (Math.random() * 2 - 1)));
+
+        this.rejoinPending = true;
+        this.log("Disconnected from MyFreeCams.  Reconnecting in " + (delay / 1000) + " seconds (attempt " + this.reconnectAttempts + ")...");
+        this.emit("CLIENT_RECONNECTING", this.reconnectAttempts, delay);
+        this.reconnectTimer = setTimeout(() => this.connect(this.doLogin), delay);
+    }
+
+    //Forgets the connection that just ended, and everything that only made
+    //sense while it was open, then lets everyone know
+    //
+    //This is an internal method, don't call it directly.
+    private connectionEnded(): void {
+        this.transport = undefined;
+        clearInterval(this.keepAlive);
+        this.sendQueue.detach();
+        this.decoder.reset();
+        this.sessionId = 0;
+        for (var id in this.rooms) {
+            if (this.rooms.hasOwnProperty(id)) {
+                this.rooms[id].reset(RoomState.Left);
+            }
+        }
+        this.emit("CLIENT_DISCONNECTED");
+    }
+
+    //Joins every room we were in before the connection was lost, if this is
+    //a reconnect
+    //
+    //This is an internal method, don't call it directly.
+    private rejoinRooms(): void {
+        if (!this.rejoinPending) {
+            return;
+        }
+        this.rejoinPending = false;
+        for (var id in this.joinedRooms) {
+            if (this.joinedRooms.hasOwnProperty(id)) {
+                this.getRoom(parseInt(id)).reset(RoomState.Joining);
+                this.TxCmd(FCTYPE.JOINCHAN, 0, parseInt(id), FCCHAN.JOIN);
+            }
+        }
     }
 
     //@TODO - Do we need a logout method?
@@ -446,22 +1126,110 @@ class Client implements NodeJS.EventEmitter {
     login(username?: string, password?: string): void {
         if (username !== undefined) {
             this.username = username;
+            this.loginUsername = username;
         }
         if (password !== undefined) {
             this.password = password;
         }
-        this.TxCmd(FCTYPE.LOGIN, 0, 20071025, 0, this.username + ":" + this.password);
+        this.TxCmd(FCTYPE.LOGIN, 0, 20071025, 0, this.loginUsername + ":" + this.password);
     }
 }
 applyMixins(Client, [EventEmitter]);
 
-type EmoteParserCallback = (parsedString: string, aMsg2: { txt: string; url: string; code: string }[]) => void;
-interface EmoteParser {
-    Process(msg: string, callback: EmoteParserCallback): void;
+type EmoteParserCallback = (parsedString: string, aMsg2: EncodedEmote[]) => void;
+//What a Client does when the server refuses its login.  Whatever the policy,
+//"CLIENT_LOGIN_FAILED" is emitted first.
+enum LoginFailurePolicy {
+    GiveUp,             //Disconnect and stay disconnected
+    RetryAsGuest,       //Log in as a guest instead, and stay a guest from then on
+    RetryWithBackoff    //Disconnect and try again on the reconnect schedule, like GiveUp if reconnect is false
+};
+//connect() rejects with one of these when the server refuses our login
+interface LoginError extends Error {
+    code: FCRESPONSE;   //The reason the server gave
+}
+interface JoinRoomOptions {
+    //Milliseconds to wait for the server to answer.  Defaults to
+    //Client.defaultResponseTimeout.
+    timeout?: number;
+    //Ask for the room's recent chat backlog, see Room's "history" event
+    history?: boolean;
+}
+//sendChat() and sendPM() reject with one of these
+interface SendError extends Error {
+    code: number;       //The FCCHAN or FCRESPONSE code the server refused the message with, undefined for other failures
+}
+//joinRoom() rejects with one of these when the server refuses to let us in
+interface RoomError extends Error {
+    code: FCCHAN;       //The reason the server gave, like FCCHAN.ERR_NOTALLOWED
+}
+interface ClientOptions {
+    //Largest packet payload, in bytes, that will be accepted from the server
+    //before the stream is considered corrupt.  Defaults to
+    //PacketDecoder.defaultMaxPayloadSize.
+    maxPayloadSize?: number;
+    //Rate limits for everything we send, missing fields use
+    //SendQueue.defaultOptions
+    sendQueue?: SendQueueOptions;
+    //Record all traffic to this capture file, see startCapture()
+    capture?: string;
+    //Where to log to, defaults to a ConsoleLogger at LogLevel.Info
+    logger?: Logger;
+    //The registry to keep this client's models in, which may be shared with
+    //other clients.  By default the first Client uses
+    //ModelRegistry.defaultRegistry, the one behind Model.getModel(), until
+    //it's disposed of, and every other Client gets a new registry of its own.
+    //See dispose().
+    models?: ModelRegistry;
+    //How to reconnect when the connection is lost, or false to never
+    //reconnect.  Missing fields use Client.defaultReconnectOptions.
+    reconnect?: ReconnectOptions|boolean;
+    //What to do when the server refuses our login.  Defaults to
+    //LoginFailurePolicy.GiveUp.
+    loginFailure?: LoginFailurePolicy;
+    //The server configuration to use instead of downloading the current one
+    //from MFC, either as a ServerConfig or as the path to a local copy of
+    //http://www.myfreecams.com/mfc2/data/serverconfig.js
+    serverConfig?: ServerConfig|string;
+    //How to choose among the chat servers in the server configuration.
+    //Either a ServerSelection or a function that, given the server names
+    //and the name of the one we last connected to (if any), returns the name
+    //of the one to connect to next.  Defaults to ServerSelection.Random.
+    serverSelection?: ServerSelection|ChatServerSelector;
+    //The exact host name or address of the chat server to connect to.  If
+    //given, the server configuration isn't used at all, which is mostly
+    //useful for testing against a local server.
+    host?: string;
+    //The chat server port to connect to, defaults to the transport's, 8100
+    //for TCP and 8080 for WebSockets
+    port?: number;
+    //How to connect to the chat servers, either a TransportType or a
+    //function returning a new Transport for each connection.  Defaults to
+    //TransportType.Tcp.
+    transport?: TransportType|TransportFactory;
+    //The emotes to encode in messages sent with format set to true, either as
+    //an EmoteTable or as the path to a JSON file containing one.  See
+    //EmoteEncoder for the format.
+    emotes?: EmoteTable|string;
+}
+//Strategies for choosing which of MFC's chat servers to connect to
+enum ServerSelection {
+    Random,         //Any server, chosen again on every connection
+    RoundRobin,     //Each server in turn, one per connection
+    LowestLatency,  //Whichever server accepts a connection fastest, measured on every connection
+    Sticky          //Any server for the first connection, and then always that same one
+};
+type ChatServerSelector = (servers: string[], previous: string) => string;
+interface ReconnectOptions {
+    initialDelay?: number;  //Milliseconds to wait before the first reconnect attempt
+    maxDelay?: number;      //Upper bound for the wait between attempts, in milliseconds
+    factor?: number;        //The wait is multiplied by this after every failed attempt
+    jitter?: number;        //Randomly vary each wait by up to this fraction of it, 0 to 1
+    maxAttempts?: number;   //Give up after this many attempts in a row, 0 to never give up
 }
 interface ServerConfig {
     ajax_servers: string[];
-    chat_server: string[];
+    chat_servers: string[];
     h5video_servers: { [index: number]: string };
     release: boolean;
     video_servers: string[];
@@ -469,3 +1237,5 @@ interface ServerConfig {
 }
 
 exports.Client = Client;
+exports.LoginFailurePolicy = LoginFailurePolicy;
+exports.ServerSelection = ServerSelection;
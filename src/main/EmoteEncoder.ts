@@ -0,0 +1,83 @@
+//EmoteEncoder takes an input chat string as you would type it in browser in an
+//MFC chat room, like "I am happy :mhappy", and formats the message as MFC
+//would internally before sending it to the server, "I am happy #~ue,2c9d2da6.gif,mhappy~#"
+//in the given example.  This is the reverse of what Packet.pMessage does for
+//received messages.
+//
+//MFC's own version of this, ParseEmoteInput in mfccore.js, asks the server
+//about every emote code it doesn't recognize.  We work entirely from a table
+//of known emotes instead, mapping each emote code (without the leading ':')
+//to the emote's image file name:
+//
+//  { "mhappy": "2c9d2da6.gif", "wave": "..." }
+//
+//Any :code not in the table is sent as the plain text it already is.
+class EmoteEncoder {
+    private emotes: EmoteTable = {};
+
+    constructor(emotes?: EmoteTable) {
+        if (emotes !== undefined) {
+            this.addEmotes(emotes);
+        }
+    }
+
+    //Creates an EmoteEncoder from a JSON file containing an EmoteTable
+    static fromFile(path: string, callback: (err: Error, encoder: EmoteEncoder) => void): void {
+        var fs = require("fs");
+        fs.readFile(path, "utf8", function(err: Error, text: string) {
+            if (err) {
+                callback(err, undefined);
+                return;
+            }
+            try {
+                callback(undefined, new EmoteEncoder(JSON.parse(text)));
+            } catch (e) {
+                callback(new Error("Invalid emote table in '" + path + "': " + e.message), undefined);
+            }
+        });
+    }
+
+    //Adds emotes to the table, replacing any existing emotes with the same codes.
+    //Codes are matched without regard to case, like on MFC.
+    addEmotes(emotes: EmoteTable): void {
+        for (var code in emotes) {
+            if (emotes.hasOwnProperty(code)) {
+                this.emotes[code.toLowerCase()] = emotes[code];
+            }
+        }
+    }
+
+    //Encodes all known emotes in msg.  If given, details about each emote
+    //that was encoded are appended to the used array.
+    encode(msg: string, used?: EncodedEmote[]): string {
+        //Emote codes are limited to the same characters and length that
+        //Packet's emote decoding accepts
+        return msg.replace(/:([\w\-\)\(\]\=\$\?\*;]{1,48})/g, function(match: string, candidate: string) {
+            //Emotes are often followed by punctuation, ":mhappy!", so find the
+            //longest known code at the start of the candidate
+            for (var len = candidate.length; len > 0; len--) {
+                var code = candidate.substr(0, len);
+                if (this.emotes.hasOwnProperty(code.toLowerCase())) {
+                    var file = this.emotes[code.toLowerCase()];
+                    if (used !== undefined) {
+                        used.push({ txt: ":" + code, url: file, code: code });
+                    }
+                    return "#~ue," + file + "," + code + "~#" + candidate.substr(len);
+                }
+            }
+            return match;
+        }.bind(this));
+    }
+}
+
+//Emote codes, without the leading ':', mapped to emote image file names
+interface EmoteTable {
+    [code: string]: string;
+}
+interface EncodedEmote {
+    txt: string;    //The text as it was typed, ":mhappy"
+    url: string;    //The emote image file name, "2c9d2da6.gif"
+    code: string;   //The emote code, "mhappy"
+}
+
+exports.EmoteEncoder = EmoteEncoder;
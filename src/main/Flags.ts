@@ -0,0 +1,150 @@
+//Decoding of MFC's bit masks into objects of named booleans.
+//
+//MFC packs lots of settings into bit masks described by the enums in
+//Constants.ts, like FCOPT for a model's m.flags.  Each FlagBits table here
+//names the bits of one of those enums, and decodeFlags() turns a mask into
+//an object with one boolean per name:
+//
+//  decodeFlags<ModelOptions>(model.flags, MODEL_OPTIONS).hdVideo
+//
+//Model decodes the masks listed in Model.flagFields this way on every update,
+//so usually that's simply model.opts.hdVideo.  The FCMODEL, FCUCR and
+//FCNEWSOPT tables aren't listed there by default, as it's not yet clear which
+//properties MFC sends them in.  Once you know, add them:
+//
+//  Model.flagFields.push({ field: "news_opt", property: "newsOpts", bits: NEWS_OPTIONS });
+
+//Flag names mapped to the bit each one is stored in
+interface FlagBits {
+    [name: string]: number;
+}
+
+//Decodes mask using the given bits.  An undefined mask decodes as all false.
+function decodeFlags<T>(mask: number, bits: FlagBits): T {
+    var result: any = {};
+    for (var name in bits) {
+        if (bits.hasOwnProperty(name)) {
+            result[name] = ((mask || 0) & bits[name]) !== 0;
+        }
+    }
+    return <T>result;
+}
+
+//The reverse of decodeFlags, builds a mask with the bits of every true flag
+function encodeFlags(flags: any, bits: FlagBits): number {
+    var mask = 0;
+    for (var name in bits) {
+        if (bits.hasOwnProperty(name) && flags[name]) {
+            mask |= bits[name];
+        }
+    }
+    return mask;
+}
+
+//FCOPT, a model's m.flags
+var MODEL_OPTIONS: FlagBits = {
+    bold: FCOPT.BOLD,
+    italics: FCOPT.ITALICS,
+    remotePvt: FCOPT.REMOTEPVT,
+    truePvt: FCOPT.TRUEPVT,
+    cam2cam: FCOPT.CAM2CAM,
+    regionBlock: FCOPT.RGNBLOCK,
+    tokenApprox: FCOPT.TOKENAPPROX,
+    tokenHide: FCOPT.TOKENHIDE,
+    rewardPointsApprox: FCOPT.RPAPPROX,
+    rewardPointsHide: FCOPT.RPHIDE,
+    hdVideo: FCOPT.HDVIDEO,
+    modelSoftware: FCOPT.MODELSW,
+    guestMute: FCOPT.GUESTMUTE,
+    basicMute: FCOPT.BASICMUTE,
+    bookmark: FCOPT.BOOKMARK
+};
+interface ModelOptions {
+    bold: boolean;
+    italics: boolean;
+    remotePvt: boolean;
+    truePvt: boolean;           //Privates are true private, nobody can spy
+    cam2cam: boolean;
+    regionBlock: boolean;       //The model blocks some regions
+    tokenApprox: boolean;
+    tokenHide: boolean;
+    rewardPointsApprox: boolean;
+    rewardPointsHide: boolean;
+    hdVideo: boolean;
+    modelSoftware: boolean;     //Broadcasting with MFC's model software
+    guestMute: boolean;         //Guests can't chat in the room
+    basicMute: boolean;         //Basic members can't chat in the room
+    bookmark: boolean;
+}
+
+//FCACCEPT_V2, who a user accepts messages from, as found in u.chat_opt
+var ACCEPT_OPTIONS: FlagBits = {
+    nobody: FCACCEPT_V2.NONE,
+    friends: FCACCEPT_V2.FRIENDS,
+    models: FCACCEPT_V2.MODELS,
+    premiums: FCACCEPT_V2.PREMIUMS,
+    basics: FCACCEPT_V2.BASICS
+};
+interface AcceptOptions {
+    nobody: boolean;
+    friends: boolean;
+    models: boolean;
+    premiums: boolean;
+    basics: boolean;
+}
+
+//FCMODEL, model account features
+var MODEL_FEATURES: FlagBits = {
+    noGroup: FCMODEL.NOGROUP,
+    feature1: FCMODEL.FEATURE1,
+    feature2: FCMODEL.FEATURE2,
+    feature3: FCMODEL.FEATURE3,
+    feature4: FCMODEL.FEATURE4,
+    feature5: FCMODEL.FEATURE5
+};
+interface ModelFeatures {
+    noGroup: boolean;           //Group shows are disabled
+    feature1: boolean;
+    feature2: boolean;
+    feature3: boolean;
+    feature4: boolean;
+    feature5: boolean;
+}
+
+//FCUCR, which kinds of users a room or webcam is open to
+var USER_CLASSES: FlagBits = {
+    friends: FCUCR.FRIENDS,
+    models: FCUCR.MODELS,
+    premiums: FCUCR.PREMIUMS,
+    basics: FCUCR.BASICS
+};
+interface UserClasses {
+    friends: boolean;
+    models: boolean;
+    premiums: boolean;
+    basics: boolean;
+}
+
+//FCNEWSOPT, where a user is shown news feed updates
+var NEWS_OPTIONS: FlagBits = {
+    inChan: FCNEWSOPT.IN_CHAN,
+    inPm: FCNEWSOPT.IN_PM,
+    autoFriendsOff: FCNEWSOPT.AUTOFRIENDS_OFF,
+    inChanNoPvt: FCNEWSOPT.IN_CHAN_NOPVT,
+    inChanNoGrp: FCNEWSOPT.IN_CHAN_NOGRP
+};
+interface NewsOptions {
+    inChan: boolean;
+    inPm: boolean;
+    autoFriendsOff: boolean;
+    inChanNoPvt: boolean;
+    inChanNoGrp: boolean;
+}
+
+exports.decodeFlags = decodeFlags;
+exports.encodeFlags = encodeFlags;
+exports.MODEL_OPTIONS = MODEL_OPTIONS;
+exports.ACCEPT_OPTIONS = ACCEPT_OPTIONS;
+exports.MODEL_FEATURES = MODEL_FEATURES;
+exports.USER_CLASSES = USER_CLASSES;
+exports.NEWS_OPTIONS = NEWS_OPTIONS;
@@ -0,0 +1,143 @@
+//Pluggable logging.  Client, and everything it owns, logs through a Logger,
+//given with the logger option of Client, so its messages can go wherever the
+//rest of a script's logging goes.  A Logger is anything with a log method:
+//
+//  var client = new Client("guest", "guest", {
+//      logger: { log: function(level, msg, fields) { winston.log(LogLevel[level].toLowerCase(), msg, fields); } }
+//  });
+//
+//Besides the message, every entry has a LogLevel and LogFields, structured
+//details like the FCTYPE of the packet or the room it's about, for loggers
+//that can index or filter on them.
+//
+//Included are ConsoleLogger, the default, which prints the way Utils.log
+//always has, FileLogger, which writes JSON lines to a new file every day, and
+//MultiLogger to send everything to several loggers at once.
+
+//Prints entries of at least the given level to the console with a timestamp,
+//like Utils.log, followed by their fields
+class ConsoleLogger implements Logger {
+    level: LogLevel;
+    private formatter: (msg: string) => string;
+
+    //formatter, if given, can change each line before it's printed, see
+    //Utils.log
+    constructor(level: LogLevel = LogLevel.Info, formatter?: (msg: string) => string) {
+        this.level = level;
+        this.formatter = formatter;
+    }
+
+    log(level: LogLevel, msg: string, fields?: LogFields): void {
+        if (level < this.level) {
+            return;
+        }
+        var prefix = level >= LogLevel.Warn ? LogLevel[level].toUpperCase() + ": " : "";
+        var suffix = "";
+        for (var name in fields) {
+            if (fields.hasOwnProperty(name) && fields[name] !== undefined) {
+                suffix += " " + name + "=" + fields[name];
+            }
+        }
+        log(prefix + msg + suffix, undefined, this.formatter);
+    }
+}
+
+//Writes entries of at least the given level to one file per day, named
+//after fileRoot and the local date, like "mfc.2016-05-21.log".  Each line is a
+//JSON object with the time, the level name, the message and the fields.
+//
+//Writes are asynchronous and buffered, so logging never blocks.  Call close()
+//before exiting to be sure everything has reached the disk.
+class FileLogger implements Logger {
+    level: LogLevel;
+    private fileRoot: string;
+    private day: string;        //The date of the current file
+    private stream: any;
+
+    constructor(fileRoot: string, level: LogLevel = LogLevel.Debug) {
+        this.fileRoot = fileRoot;
+        this.level = level;
+    }
+
+    log(level: LogLevel, msg: string, fields?: LogFields): void {
+        if (level < this.level) {
+            return;
+        }
+        var now = new Date();
+        var entry: any = { time: now.toISOString(), level: LogLevel[level], msg: msg };
+        for (var name in fields) {
+            if (fields.hasOwnProperty(name)) {
+                entry[name] = fields[name];
+            }
+        }
+        this.streamFor(now).write(JSON.stringify(entry) + "\n");
+    }
+
+    //Finishes writing the current file, callback is invoked once it's
+    //completely written.  Logging again afterwards opens it again.
+    close(callback?: () => void): void {
+        if (this.stream !== undefined) {
+            this.stream.end(callback);
+            this.stream = undefined;
+            this.day = undefined;
+        } else if (callback !== undefined) {
+            callback();
+        }
+    }
+
+    //The file for the given time, switching to a new one on a new day
+    private streamFor(time: Date): any {
+        function pad(n: number): string { return n < 10 ? '0' + n : '' + n; }
+        var day = time.getFullYear() + "-" + pad(time.getMonth() + 1) + "-" + pad(time.getDate());
+        if (day !== this.day) {
+            this.close();
+            var path = this.fileRoot + "." + day + ".log";
+            this.day = day;
+            this.stream = require("fs").createWriteStream(path, { flags: "a" });
+            this.stream.on('error', function(err: Error) {
+                log("Unable to write log file '" + path + "': " + err.message);
+            });
+        }
+        return this.stream;
+    }
+}
+
+//Passes every entry on to each of the given loggers
+class MultiLogger implements Logger {
+    loggers: Logger[];
+
+    constructor(loggers: Logger[]) {
+        this.loggers = loggers;
+    }
+
+    log(level: LogLevel, msg: string, fields?: LogFields): void {
+        this.loggers.forEach(function(logger: Logger) {
+            logger.log(level, msg, fields);
+        });
+    }
+}
+
+//How important a log entry is, from least to most
+enum LogLevel {
+    Trace,      //Every packet sent and received
+    Debug,      //Details that help find out what went wrong
+    Info,       //Connections, logins and the like
+    Warn,       //Something's wrong, but we can carry on
+    Error       //Something failed
+};
+interface Logger {
+    log(level: LogLevel, msg: string, fields?: LogFields): void;
+}
+//Structured details of a log entry, the ones below are used by MFCAuto
+//itself and any others may be added
+interface LogFields {
+    fctype?: string;    //The name of the FCTYPE of the packet the entry is about
+    room?: number;      //The room id
+    uid?: number;       //The user id of the model or user
+    [name: string]: any;
+}
+
+exports.LogLevel = LogLevel;
+exports.ConsoleLogger = ConsoleLogger;
+exports.FileLogger = FileLogger;
+exports.MultiLogger = MultiLogger;
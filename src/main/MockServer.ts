@@ -0,0 +1,445 @@
+var EventEmitter: any = require('events').EventEmitter;
+
+//MockServer is a small, scriptable, in-process stand in for an MFC chat
+//server, speaking the same protocol on a local port, over TCP or, if
+//constructed with TransportType.WebSocket, over WebSockets.  It lets
+//Client, and scripts built on it, be tested without ever touching the real
+//site:
+//
+//  var server = new MockServer();
+//  server.listen().then(function(port) {
+//      var client = new Client("guest", "guest", { host: "127.0.0.1", port: port, reconnect: false });
+//      ...
+//  });
+//
+//Out of the box it handles LOGIN (as a guest or with any account added with
+//addAccount), USERNAMELOOKUP of the users added with addUser, JOINCHAN with
+//member lists and history, CMESG and PMESG with echoes and the usual errors,
+//and ignores keepalives.  Tests can push SESSIONSTATE, TAGS and TOKENINC
+//packets whenever they like, or anything at all with broadcast() and
+//MockSession.send(), down to raw data with MockSession.sendRaw().
+//
+//MockServer emits these events:
+//  "connection"    - (session) A client connected
+//  "packet"        - (session, packet) A packet was received, before it's handled
+//  "disconnect"    - (session) A client disconnected
+class MockServer implements NodeJS.EventEmitter {
+    port: number;
+    transport: TransportType;
+
+    private server: any;
+    private sessions: MockSession[] = [];
+    private nextSessionId: number = 1000;
+    private accounts: { [name: string]: MockAccount } = {};
+    private users: { [index: number]: Message } = {};
+    private rooms: { [index: number]: MockRoom } = {};
+
+    constructor(transport: TransportType = TransportType.Tcp) {
+        this.transport = transport;
+        if (transport === TransportType.WebSocket) {
+            var WebSocket = require('ws');
+            this.server = require('http').createServer();
+            var wss = new WebSocket.Server({ server: this.server, path: WebSocketTransport.path });
+            wss.on('connection', (socket: any) => this.accept(socket));
+        } else {
+            this.server = require('net').createServer((socket: any) => this.accept(socket));
+        }
+    }
+
+    //Instance EventEmitter methods, mixed in after this class declaration
+    addListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    on: (event: string, listener: Function) => NodeJS.EventEmitter;
+    once: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeAllListeners: (event?: string) => NodeJS.EventEmitter;
+    setMaxListeners: (n: number) => void;
+    listeners: (event: string) => Function[];
+    emit: (event: string, ...args: any[]) => boolean;
+
+    //Starts listening on 127.0.0.1, returning a promise for the port.  The
+    //default of 0 picks any free port.
+    listen(port: number = 0): Promise<number> {
+        return new Promise<number>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, "127.0.0.1", () => {
+                this.server.removeListener('error', reject);
+                this.port = this.server.address().port;
+                resolve(this.port);
+            });
+        });
+    }
+
+    //Disconnects every client and stops listening
+    close(): Promise<void> {
+        return new Promise<void>((resolve) => {
+            this.sessions.slice().forEach(function(session: MockSession) {
+                session.close();
+            });
+            this.server.close(() => resolve());
+        });
+    }
+
+    //Lets a client log in as the given user
+    addAccount(account: MockAccount): void {
+        this.accounts[account.name.toLowerCase()] = account;
+    }
+
+    //Adds or updates a user, typically a model, that USERNAMELOOKUP can find
+    //and that is included in the SESSIONSTATE dump sent after every login
+    addUser(user: Message): void {
+        this.users[user.uid] = this.merge(this.users[user.uid], user);
+    }
+
+    //The state of the room with the given id, which tests can change
+    getRoom(id: number): MockRoom {
+        if (id < 100000000) {
+            id = id + 100000000;
+        }
+        if (!this.rooms.hasOwnProperty(<any>id)) {
+            this.rooms[id] = { id: id, guestMute: false, denyJoin: undefined, rejectContent: undefined, members: [], history: [] };
+        }
+        return this.rooms[id];
+    }
+
+    //All connected clients
+    getSessions(): MockSession[] {
+        return this.sessions.slice();
+    }
+
+    //Sends a packet to every logged in client
+    broadcast(nType: FCTYPE, nTo: number = 0, nArg1: number = 0, nArg2: number = 0, msg?: any): void {
+        this.sessions.forEach(function(session: MockSession) {
+            if (session.loggedIn) {
+                session.send(nType, nTo, nArg1, nArg2, msg);
+            }
+        });
+    }
+
+    //Updates a user, like addUser, and sends the update to every client
+    sendSessionState(user: Message): void {
+        this.addUser(user);
+        this.broadcast(FCTYPE.SESSIONSTATE, 0, 0, user.uid, user);
+    }
+
+    //Sends tags, keyed by user id, to every client
+    sendTags(tags: FCTypeTagsResponse): void {
+        this.broadcast(FCTYPE.TAGS, 0, 0, 0, tags);
+    }
+
+    //Sends a tip to every client
+    sendTip(tip: MockTip): void {
+        var model = this.users[tip.modelId];
+        this.broadcast(FCTYPE.TOKENINC, 0, 0, 0, {
+            ch: tip.modelId + 100000000,
+            flags: tip.flags || 0,
+            m: [tip.senderId, tip.modelId, model !== undefined ? model.nm : ""],
+            sesstype: 0,
+            stamp: Math.floor(Date.now() / 1000),
+            tokens: tip.tokens,
+            u: [tip.senderId, 0, tip.senderName],
+            msg: tip.message
+        });
+    }
+
+    private accept(socket: any): void {
+        var session = new MockSession(this, socket, this.nextSessionId++, this.transport === TransportType.WebSocket);
+        this.sessions.push(session);
+        socket.on('error', function(): void { return undefined; });
+        socket.on('close', () => {
+            this.sessions.splice(this.sessions.indexOf(session), 1);
+            for (var id in this.rooms) {
+                if (this.rooms.hasOwnProperty(id)) {
+                    this.leave(session, this.rooms[id]);
+                }
+            }
+            this.emit("disconnect", session);
+        });
+        this.emit("connection", session);
+    }
+
+    //Handles a packet from a client
+    //
+    //This is an internal method, MockSession calls it.
+    received(session: MockSession, packet: Packet): void {
+        this.emit("packet", session, packet);
+        switch (packet.FCType) {
+            case FCTYPE.LOGIN:
+                this.login(session, String(packet.sMessage));
+                break;
+            case FCTYPE.USERNAMELOOKUP:
+                this.lookup(session, packet);
+                break;
+            case FCTYPE.JOINCHAN:
+                var room = this.getRoom(packet.nArg1);
+                if ((packet.nArg2 & FCCHAN.JOIN) !== 0) {
+                    this.join(session, room, (packet.nArg2 & FCCHAN.HISTORY) !== 0);
+                } else if ((packet.nArg2 & FCCHAN.PART) !== 0) {
+                    this.leave(session, room);
+                }
+                break;
+            case FCTYPE.CMESG:
+                this.chat(session, this.getRoom(packet.nTo), String(packet.sMessage));
+                break;
+            case FCTYPE.PMESG:
+                this.privateMessage(session, packet.nTo, String(packet.sMessage));
+                break;
+            default:
+                //Keepalives and anything else are ignored
+                break;
+        }
+    }
+
+    private login(session: MockSession, credentials: string): void {
+        var separator = credentials.indexOf(":");
+        var name = credentials.substr(0, separator);
+        var password = credentials.substr(separator + 1);
+
+        if (name.toLowerCase() === "guest") {
+            session.uid = session.id;
+            session.name = "Guest" + session.id;
+            session.level = FCLEVEL.GUEST;
+        } else {
+            var account = this.accounts[name.toLowerCase()];
+            if (account === undefined || account.password !== password) {
+                session.send(FCTYPE.LOGIN, session.id, FCRESPONSE.NOACCESS, 0, name);
+                return;
+            }
+            session.uid = account.uid;
+            session.name = account.name;
+            session.level = account.level !== undefined ? account.level : FCLEVEL.BASIC;
+        }
+        session.loggedIn = true;
+        session.send(FCTYPE.LOGIN, session.id, FCRESPONSE.SUCCESS, session.uid, session.name);
+
+        for (var uid in this.users) {
+            if (this.users.hasOwnProperty(uid)) {
+                session.send(FCTYPE.SESSIONSTATE, 0, 0, parseInt(uid), this.users[uid]);
+            }
+        }
+    }
+
+    private lookup(session: MockSession, packet: Packet): void {
+        var found: Message;
+        for (var uid in this.users) {
+            if (this.users.hasOwnProperty(uid)) {
+                var user = this.users[uid];
+                if (packet.nArg2 !== 0 ? user.uid === packet.nArg2 : (typeof user.nm === 'string' && user.nm.toLowerCase() === String(packet.sMessage).toLowerCase())) {
+                    found = user;
+                }
+            }
+        }
+        if (found !== undefined) {
+            session.send(FCTYPE.USERNAMELOOKUP, session.id, packet.nArg1, FCRESPONSE.SUCCESS, found);
+        } else {
+            session.send(FCTYPE.USERNAMELOOKUP, session.id, packet.nArg1, FCRESPONSE.NO_RESULTS, packet.sMessage);
+        }
+    }
+
+    private join(session: MockSession, room: MockRoom, history: boolean): void {
+        if (room.denyJoin !== undefined) {
+            session.send(FCTYPE.JOINCHAN, session.id, room.id, room.denyJoin);
+            return;
+        }
+        if (room.members.indexOf(session) === -1) {
+            room.members.push(session);
+        }
+
+        var list: Message[] = [];
+        var model = this.users[room.id - 100000000];
+        if (model !== undefined) {
+            list.push(model);
+        }
+        room.members.forEach(function(member: MockSession) {
+            if (member !== session) {
+                list.push(member.toMessage());
+            }
+        });
+        session.send(FCTYPE.JOINCHAN, session.id, room.id, FCCHAN.JOIN | FCCHAN.LIST, list);
+
+        room.members.forEach(function(member: MockSession) {
+            member.send(FCTYPE.JOINCHAN, member.id, room.id, FCCHAN.JOIN, session.toMessage());
+        });
+
+        if (history) {
+            room.history.forEach(function(msg: Message) {
+                session.send(FCTYPE.CMESG, room.id, 0, FCCHAN.OLDMSG, msg);
+            });
+        }
+    }
+
+    private leave(session: MockSession, room: MockRoom): void {
+        var index = room.members.indexOf(session);
+        if (index === -1) {
+            return;
+        }
+        room.members.forEach(function(member: MockSession) {
+            member.send(FCTYPE.JOINCHAN, member.id, room.id, FCCHAN.PART, { uid: session.uid, sid: session.id });
+        });
+        room.members.splice(index, 1);
+    }
+
+    private chat(session: MockSession, room: MockRoom, text: string): void {
+        if (room.guestMute && session.level === FCLEVEL.GUEST) {
+            session.send(FCTYPE.CMESG, room.id, 0, FCCHAN.ERR_GUESTMUTE);
+            return;
+        }
+        if (room.rejectContent !== undefined && room.rejectContent.test(text)) {
+            session.send(FCTYPE.CMESG, room.id, 0, FCCHAN.ERR_CONTENT);
+            return;
+        }
+
+        var msg = this.merge(session.toMessage(), { msg: text, ts: Math.floor(Date.now() / 1000) });
+        room.history.push(msg);
+        if (room.history.length > MockServer.maxHistory) {
+            room.history.shift();
+        }
+        var recipients = room.members.indexOf(session) === -1 ? room.members.concat([session]) : room.members;
+        recipients.forEach(function(member: MockSession) {
+            member.send(FCTYPE.CMESG, room.id, 0, 0, msg, session.id);
+        });
+    }
+
+    private privateMessage(session: MockSession, to: number, text: string): void {
+        var recipients = this.sessions.filter(function(other: MockSession) {
+            return other.loggedIn && other.uid === to;
+        });
+        if (session.level === FCLEVEL.GUEST || recipients.length === 0) {
+            session.send(FCTYPE.PMESG, to, 0, FCRESPONSE.NOACCESS);
+            return;
+        }
+
+        var msg = this.merge(session.toMessage(), { msg: text });
+        recipients.concat([session]).forEach(function(recipient: MockSession) {
+            recipient.send(FCTYPE.PMESG, to, 0, 0, msg, session.id);
+        });
+    }
+
+    //A copy of target with the properties of source added
+    private merge(target: any, source: any): any {
+        var result: any = {};
+        [target, source].forEach(function(obj: any) {
+            for (var key in obj) {
+                if (obj.hasOwnProperty(key)) {
+                    result[key] = obj[key];
+                }
+            }
+        });
+        return result;
+    }
+
+    //How many chat messages each room remembers for FCCHAN.HISTORY
+    static maxHistory: number = 50;
+}
+applyMixins(MockServer, [EventEmitter]);
+
+//A single client connection to a MockServer
+class MockSession {
+    id: number;                 //The session id
+    uid: number;                //Set once logged in
+    name: string;               //Our chat name, set once logged in
+    level: FCLEVEL;
+    loggedIn: boolean = false;
+
+    private server: MockServer;
+    private socket: any;        //A net.Socket, or a WebSocket
+    private websocket: boolean;
+    private decoder: PacketDecoder;
+
+    constructor(server: MockServer, socket: any, id: number, websocket: boolean) {
+        this.server = server;
+        this.socket = socket;
+        this.id = id;
+        this.websocket = websocket;
+        if (websocket) {
+            socket.on('message', (data: any) => this.receivedText(String(data)));
+        } else {
+            this.decoder = new PacketDecoder();
+            socket.on('data', (data: Buffer) => {
+                this.decoder.write(data).forEach((packet: Packet) => {
+                    this.server.received(this, packet);
+                });
+                if (this.decoder.error !== undefined) {
+                    this.socket.destroy();
+                }
+            });
+        }
+    }
+
+    //Sends a packet to this client
+    send(nType: FCTYPE, nTo: number = 0, nArg1: number = 0, nArg2: number = 0, msg?: any, nFrom: number = 0): void {
+        var packet = new Packet(undefined, nType, nFrom, nTo, nArg1, nArg2, 0, msg);
+        if (this.websocket) {
+            var text = WebSocketTransport.toText(packet, true);
+            this.sendRaw(("000000" + text.length).slice(-6) + text);
+        } else {
+            this.sendRaw(packet.toBuffer());
+        }
+    }
+
+    //Sends data to this client exactly as given, bytes over TCP or a text
+    //message over WebSockets
+    sendRaw(data: Buffer|string): void {
+        if (this.websocket) {
+            this.socket.send(String(data), function(): void { return undefined; });
+        } else {
+            this.socket.write(data);
+        }
+    }
+
+    //Hangs up on this client
+    close(): void {
+        if (this.websocket) {
+            this.socket.close();
+        } else {
+            this.socket.end();
+        }
+    }
+
+    //This session as a member of a room or the sender of a message
+    toMessage(): Message {
+        return { sid: this.id, uid: this.uid, nm: this.name, lv: this.level };
+    }
+
+    //Handles a WebSocket message, which holds a single packet, or the hello
+    //every connection starts with
+    private receivedText(text: string): void {
+        if (/^hello fcserver\n?\0?$/.test(text)) {
+            return;
+        }
+        var packet = WebSocketTransport.fromText(text);
+        if (packet === undefined) {
+            this.socket.terminate();
+            return;
+        }
+        this.server.received(this, packet);
+    }
+}
+
+//A user that can log in to a MockServer
+interface MockAccount {
+    name: string;
+    password: string;
+    uid: number;
+    level?: FCLEVEL;    //Defaults to FCLEVEL.BASIC
+}
+//The state of a room on a MockServer
+interface MockRoom {
+    id: number;
+    guestMute: boolean;     //Guests' chat is refused with ERR_GUESTMUTE
+    denyJoin: FCCHAN;       //If set, joins are refused with this error
+    rejectContent: RegExp;  //If set, matching chat is refused with ERR_CONTENT
+    members: MockSession[];
+    history: Message[];     //Recent chat, sent to joins that ask for history
+}
+//A tip for MockServer.sendTip
+interface MockTip {
+    senderId: number;
+    senderName: string;
+    modelId: number;
+    tokens: number;
+    message?: string;
+    flags?: number;         //TKOPT flags
+}
+
+exports.MockServer = MockServer;
+exports.MockSession = MockSession;
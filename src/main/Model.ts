@@ -3,11 +3,16 @@ var EventEmitter: any = require('events').EventEmitter;
 //Model represents a single MFC model, or technically any MFC user whether or
 //not that user is a model, admin, guest, basic, premium user, etc.
 //
-//The Model constructor also serves as a static dictionary of all known models
-//which can be accessed via Model.getModel().
+//Models are kept in a ModelRegistry, one for each Client.  The Model
+//constructor also gives access to the default registry, shared by scripts
+//with only one Client, via Model.getModel() and Model.on().
 //
 //Finally, Model emits events when the Model's state is changed.  This is best
 //explained via examples.  So see the readme and sample code in MFCAuto_Scripts.
+//Besides an event named after each property that changes, a Model (and its
+//registry) emits "sessionStart" when the model comes online and "sessionEnd"
+//when the model goes offline again, see stateHistory, and "tagsAdded" and
+//"tagsRemoved" with just the tags that changed when a TAGS packet arrives.
 class Model implements NodeJS.EventEmitter {
     uid: number;            //This Model's user id
     [index: string]: any;   //This instance will also serve as an expando dictionary for various properties
@@ -16,7 +21,34 @@ class Model implements NodeJS.EventEmitter {
     truepvt: number;
     guests_muted: number;
     basics_muted: number;
+    //The bit masks in flagFields, decoded, like opts.hdVideo
+    opts: ModelOptions;
+    acceptOpts: AcceptOptions;
     tags: string[] = [];
+    //When we last received anything about this model from the server, in ms
+    lastSeen: number;
+    //True while everything known about this model came from a snapshot,
+    //see ModelRegistry.importSnapshot(), until the server tells us about the
+    //model again
+    stale: boolean = false;
+    //Every change of vs we've seen, oldest first, up to maxStateHistory of them
+    stateHistory: StateTransition[] = [];
+    //When the current online session started, undefined while Offline.  For
+    //models already online when we first heard of them, this is when we did.
+    onlineSince: number;
+
+    //How many vs transitions each model remembers
+    static maxStateHistory: number = 1000;
+
+    //The bit mask properties decoded on every update, and the property that
+    //receives each decoded mask.  Whenever a mask changes, an event is fired
+    //for the decoded property as a whole and for every flag that flipped,
+    //named like "opts.hdVideo".  The first mask we receive is decoded without
+    //any events.  Add to this to decode other masks, see Flags.ts.
+    static flagFields: FlagField[] = [
+        { field: "flags", property: "opts", bits: MODEL_OPTIONS },
+        { field: "chat_opt", property: "acceptOpts", bits: ACCEPT_OPTIONS }
+    ];
 
     //Instance EventEmitter methods for this specific model.  These are used
     //like:  var m = new Model();  m.on(...);
@@ -31,29 +63,30 @@ class Model implements NodeJS.EventEmitter {
     listeners: (event: string) => Function[];
     emit: (event: string, ...args: any[]) => boolean;
 
-    //EventEmitter object to be used for events firing for all models
-    private static EventsForAllModels: NodeJS.EventEmitter = new EventEmitter();
-
-    //Expose the "all model" events as constructor properies to be accessed
-    //like Model.on(...)
-    static addListener = Model.EventsForAllModels.addListener;
-    static on = Model.EventsForAllModels.on;
-    static once = Model.EventsForAllModels.once;
-    static removeListener = Model.EventsForAllModels.removeListener;
-    static removeAllListeners = Model.EventsForAllModels.removeAllListeners;
-    static setMaxListeners = Model.EventsForAllModels.setMaxListeners;
-    static listeners = Model.EventsForAllModels.listeners;
-    static emit = Model.EventsForAllModels.emit;
-
-    //A registry of all known models that is built up as we receive
-    //model information from the server.  This should not be accessed
-    //directly.  Use the Model.getModel() method instead.
-    private static knownModels: { [index: number]: ExpandedModel } = {};
+    //The "all model" events of the default registry, exposed as constructor
+    //properties to be accessed like Model.on(...).  Each Client has its own
+    //registry as well, see ModelRegistry.
+    static addListener(event: string, listener: Function): NodeJS.EventEmitter { return ModelRegistry.defaultRegistry.addListener(event, listener); }
+    static on(event: string, listener: Function): NodeJS.EventEmitter { return ModelRegistry.defaultRegistry.on(event, listener); }
+    static once(event: string, listener: Function): NodeJS.EventEmitter { return ModelRegistry.defaultRegistry.once(event, listener); }
+    static removeListener(event: string, listener: Function): NodeJS.EventEmitter { return ModelRegistry.defaultRegistry.removeListener(event, listener); }
+    static removeAllListeners(event?: string): NodeJS.EventEmitter { return ModelRegistry.defaultRegistry.removeAllListeners(event); }
+    static setMaxListeners(n: number): void { ModelRegistry.defaultRegistry.setMaxListeners(n); }
+    static listeners(event: string): Function[] { return ModelRegistry.defaultRegistry.listeners(event); }
+    static emit(event: string, ...args: any[]): boolean { return ModelRegistry.defaultRegistry.emit.apply(ModelRegistry.defaultRegistry, [event].concat(args)); }
+
+    //The registry this model belongs to, whose "all model" events it fires
+    private registry: ModelRegistry;
+    //Whether the server has told us the model's vs yet.  Until it does, vs is
+    //only our Offline placeholder, so the first one we see isn't a change.
+    private _stateSeen: boolean = false;
 
     //Constructs a new model with the given user id and, optionally, a
     //SESSIONSTATE or TAGS packet containing the initial model details.
-    constructor(uid: number, packet?: Packet) {
+    //Models are normally created by a ModelRegistry, use getModel() instead.
+    constructor(uid: number, packet?: Packet, registry: ModelRegistry = ModelRegistry.defaultRegistry) {
         this.uid = uid;
+        this.registry = registry;
         this['vs'] = STATE.Offline; //All model's start as Offline
         if (packet !== undefined) {
             this.client = packet.client;
@@ -61,19 +94,32 @@ class Model implements NodeJS.EventEmitter {
         }
     }
 
-    //Retrieves a specific model instance by user id from knownModels, creating
-    //the model instance if it does not already exist.
+    //Retrieves a specific model instance by user id from the default
+    //registry, creating the model instance if it does not already exist.
+    //Use client.models.getModel() for the models of a specific Client.
     static getModel(id: any): ExpandedModel {
-        if (typeof id === 'string') id = parseInt(id);
-        Model.knownModels[id] = Model.knownModels[id] || <ExpandedModel>(new Model(id));
-        return Model.knownModels[id];
+        return ModelRegistry.defaultRegistry.getModel(id);
+    }
+
+    //Queries of the default registry, see ModelRegistry for details
+    static getByName(nm: string): ExpandedModel {
+        return ModelRegistry.defaultRegistry.getByName(nm);
+    }
+    static getModelsByTag(tag: string): ExpandedModel[] {
+        return ModelRegistry.defaultRegistry.getModelsByTag(tag);
+    }
+    static findModels(filter: ModelPredicate|ModelFilter): ExpandedModel[] {
+        return ModelRegistry.defaultRegistry.findModels(filter);
+    }
+    static watchModels(filter: ModelPredicate|ModelFilter): ModelSet {
+        return ModelRegistry.defaultRegistry.watchModels(filter);
     }
 
     //Merges a raw MFC packet into this model's state
     //
     //In short, it cracks open any given Message or FCTypeTagResponse message
     //and adds the members from that message to this instance.  In the case
-    //of a SESSIONSTATE packet containing a Message, this method will crack
+    //of a SESSIONSTATE, USERNAMELOOKUP or JOINCHAN packet containing a Message, this method will crack
     //open the UserDetailsMessage, ModelDetailsMessage, and SessionDetailsMessages
     //and add each of their members to this instance at the top level.
     //
@@ -104,17 +150,34 @@ class Model implements NodeJS.EventEmitter {
         }
 
         var callbackStack: mergeCallbackPayload[] = [];
+        var derivedEvents: mergeCallbackPayload[] = []; //Events that aren't a property change, see below
+
+        this.lastSeen = Date.now();
+        if (this.stale) {
+            this.stale = false;
+            callbackStack.push({ prop: "stale", oldstate: true, newstate: false });
+        }
 
         switch (packet.FCType) {
             case FCTYPE.SESSIONSTATE:
-                assert(this.uid === packet.nArg2, "Merging packet meant for a different model! (" + this.uid + " !== " + packet.nArg2 + ")", packet);
-
+            case FCTYPE.USERNAMELOOKUP:
+            case FCTYPE.JOINCHAN:
                 //This must be typed as any in order to iterate over its keys in a for-in
                 //It's real type is Message, but since my type definitions may be incomplete
                 //and even if they are complete, MFC may add a new property, we need to
                 //iterate over all the keys.
                 var payload: any = packet.sMessage;
 
+                //A JOINCHAN member list holds a Message for every member, only this one's matters here
+                if (Array.isArray(payload)) {
+                    payload = payload.filter((msg: Message) => msg && msg.uid === this.uid)[0] || {};
+                }
+
+                //SESSIONSTATE gives the model id in nArg2, the others (where nArg2 is
+                //a response code, etc) only in the message itself
+                var packetUid = packet.FCType === FCTYPE.SESSIONSTATE ? packet.nArg2 : payload.uid;
+                assert(this.uid === packetUid, "Merging packet meant for a different model! (" + this.uid + " !== " + packetUid + ")", packet);
+
                 for (var key in payload) {
                     //Rip out the sMessage.u|m|s properties and put them on 'this' at
                     //the top level.  This allows for listening on simple event
@@ -138,24 +201,149 @@ class Model implements NodeJS.EventEmitter {
             case FCTYPE.TAGS:
                 var tagPayload: FCTypeTagsResponse = <FCTypeTagsResponse>packet.sMessage;
                 console.assert(tagPayload[this.uid] !== undefined, "This FCTYPE.TAGS messages doesn't appear to be about this model(" + this.uid + "): " + JSON.stringify(tagPayload));
-                callbackStack.push({ prop: "tags", oldstate: this.tags, newstate: (this.tags = this.tags.concat(tagPayload[this.uid])) });
-                //@TODO - Are tags incrementally added in updates or just given all at once in a single dump??  Not sure, for now
-                //we're always adding to any existing tags.  Have to watch if this causes tag duplication or not
+                //Tags are a set, compared without regard to case.  Depending on the
+                //registry's tagMerge, each packet either holds the complete set or
+                //only tags to add to what we already have.
+                var incoming = tagPayload[this.uid] || [];
+                var newTags = Model.uniqueTags(this.registry.tagMerge === TagMergePolicy.Merge ? this.tags.concat(incoming) : incoming);
+                var added = newTags.filter((tag: string) => !Model.containsTag(this.tags, tag));
+                var removed = this.tags.filter((tag: string) => !Model.containsTag(newTags, tag));
+                if (added.length > 0 || removed.length > 0) {
+                    callbackStack.push({ prop: "tags", oldstate: this.tags, newstate: (this.tags = newTags) });
+                }
+                if (added.length > 0) {
+                    derivedEvents.push({ prop: "tagsAdded", oldstate: undefined, newstate: added });
+                }
+                if (removed.length > 0) {
+                    derivedEvents.push({ prop: "tagsRemoved", oldstate: undefined, newstate: removed });
+                }
                 break;
             default:
                 throw ("Unknown packet type for: " + packet);
         }
 
-        //After all the changes have been applied, fire our events
+        //Decode any bit masks that changed
+        Model.flagFields.forEach((flagField: FlagField) => {
+            if (!callbackStack.some((item: mergeCallbackPayload) => item.prop === flagField.field)) {
+                return;
+            }
+            var oldFlags = this[flagField.property];
+            var newFlags = decodeFlags<any>(this[flagField.field], flagField.bits);
+            if (oldFlags === undefined) {
+                //Nothing flipped, we just didn't know the flags before
+                this[flagField.property] = newFlags;
+                return;
+            }
+            var flipped: mergeCallbackPayload[] = [];
+            for (var name in flagField.bits) {
+                if (flagField.bits.hasOwnProperty(name) && oldFlags[name] !== newFlags[name]) {
+                    flipped.push({ prop: flagField.property + "." + name, oldstate: oldFlags[name], newstate: newFlags[name] });
+                }
+            }
+            if (flipped.length > 0) {
+                callbackStack.push({ prop: flagField.property, oldstate: oldFlags, newstate: (this[flagField.property] = newFlags) });
+                callbackStack = callbackStack.concat(flipped);
+            }
+        });
+
+        //Keep track of video state changes for stateHistory and the session events
+        callbackStack.forEach((item: mergeCallbackPayload) => {
+            if (item.prop !== "vs") {
+                return;
+            }
+            if (!this._stateSeen) {
+                this._stateSeen = true;
+                if (item.newstate !== STATE.Offline) {
+                    this.onlineSince = Date.now();
+                }
+            } else if (item.oldstate !== item.newstate) {
+                derivedEvents = derivedEvents.concat(this.recordState(<STATE>item.oldstate, <STATE>item.newstate));
+            }
+        });
+
+        //After all the changes have been applied, bring the registry's indexes
+        //up to date, then fire our events
+        if (callbackStack.length > 0) {
+            this.registry.modelUpdated(<ExpandedModel><any>this);
+        }
         callbackStack.forEach((function(item: mergeCallbackPayload) {
             this.emit(item.prop, this, item.oldstate, item.newstate);
-            Model.emit(item.prop, this, item.oldstate, item.newstate);
+            this.registry.emit(item.prop, this, item.oldstate, item.newstate);
         }).bind(this));
+        //The derived events are given the model and, for "sessionEnd", how
+        //long the session lasted in ms, or for "tagsAdded" and "tagsRemoved",
+        //the array of tags added or removed
+        derivedEvents.forEach((function(item: mergeCallbackPayload) {
+            this.emit(item.prop, this, item.newstate);
+            this.registry.emit(item.prop, this, item.newstate);
+        }).bind(this));
+    }
+
+    //How long, in ms, the model has been in the current vs, or undefined if
+    //we haven't seen the model change state yet
+    get stateDuration(): number {
+        var last = this.stateHistory[this.stateHistory.length - 1];
+        return last !== undefined ? Date.now() - last.time : undefined;
+    }
+
+    //The total time, in ms, the model spent in each vs since the given time
+    //(or as far back as stateHistory goes), keyed by STATE.  The time before
+    //the first transition we saw isn't counted, as we don't know when that
+    //state began.
+    stateTotals(since: number = 0): { [state: number]: number } {
+        var totals: { [state: number]: number } = {};
+        var now = Date.now();
+        this.stateHistory.forEach((transition: StateTransition, index: number) => {
+            var next = this.stateHistory[index + 1];
+            var start = Math.max(transition.time, since);
+            var end = next !== undefined ? next.time : now;
+            if (end > start) {
+                totals[transition.to] = (totals[transition.to] || 0) + end - start;
+            }
+        });
+        return totals;
+    }
+
+    //Whether tags holds the given tag, ignoring case
+    private static containsTag(tags: string[], tag: string): boolean {
+        var lower = tag.toLowerCase();
+        return tags.some(function(t: string) { return t.toLowerCase() === lower; });
+    }
+
+    //The given tags without duplicates, keeping the first spelling of each
+    private static uniqueTags(tags: string[]): string[] {
+        var result: string[] = [];
+        tags.forEach(function(tag: string) {
+            if (typeof tag === 'string' && !Model.containsTag(result, tag)) {
+                result.push(tag);
+            }
+        });
+        return result;
+    }
+
+    //Records a vs change and returns the session events it causes
+    private recordState(from: STATE, to: STATE): mergeCallbackPayload[] {
+        var now = Date.now();
+        this.stateHistory.push({ time: now, from: from, to: to });
+        if (this.stateHistory.length > Model.maxStateHistory) {
+            this.stateHistory.splice(0, this.stateHistory.length - Model.maxStateHistory);
+        }
+
+        if (from === STATE.Offline && to !== STATE.Offline) {
+            this.onlineSince = now;
+            return [{ prop: "sessionStart", oldstate: undefined, newstate: undefined }];
+        }
+        if (to === STATE.Offline) {
+            var duration = this.onlineSince !== undefined ? now - this.onlineSince : undefined;
+            this.onlineSince = undefined;
+            return [{ prop: "sessionEnd", oldstate: undefined, newstate: duration }];
+        }
+        return [];
     }
 
     toString(): string {
         function censor(key: string, value: any) {
-            if (key === "client") {
+            if (key === "client" || key === "registry") {
                 //This would lead to a circular reference
                 return undefined;
             }
@@ -165,7 +353,21 @@ class Model implements NodeJS.EventEmitter {
     }
 }
 
-interface mergeCallbackPayload { prop: string; oldstate: number|string|string[]; newstate: number|string|string[] };
+//A change of a model's vs, see Model.stateHistory
+interface StateTransition {
+    time: number;   //When we saw the change, in ms
+    from: STATE;
+    to: STATE;
+}
+
+//A bit mask property of Model, see Model.flagFields
+interface FlagField {
+    field: string;      //The property holding the mask, as merged from the server
+    property: string;   //The property to put the decoded flags in
+    bits: FlagBits;
+}
+
+interface mergeCallbackPayload { prop: string; oldstate: any; newstate: any };
 
 applyMixins(Model, [EventEmitter]);
 
@@ -0,0 +1,386 @@
+var EventEmitter: any = require('events').EventEmitter;
+
+//ModelRegistry is a dictionary of Models, built up as model information is
+//received from the server, and the source of events for all of its models.
+//
+//Every Client keeps its models in its own registry, client.models, so two
+//clients connected at once, say a guest watching rooms and a logged in
+//account, each see only what their own server connection told them.  The
+//first Client created without the models option adopts
+//ModelRegistry.defaultRegistry, which is what the static Model.getModel()
+//and Model.on() use, so scripts with a single Client can keep using those.
+//Once that Client is disposed of, see Client.dispose(), the next Client
+//created adopts it.
+//
+//Like Model.on(), a registry emits an event for every property change of
+//any of its models, given the model, the previous value and the new value:
+//
+//  client.models.on("vs", function(model, oldState, newState) { ... });
+//
+//Models can be looked up by name, or searched for with either a predicate
+//function or a ModelFilter describing the models wanted:
+//
+//  client.models.findModels({ vs: STATE.FreeChat, rc: { min: 500 }, tags: ["yoga"] });
+//
+//watchModels() takes the same arguments and returns a ModelSet that keeps
+//itself up to date as models change, see ModelSet.
+//
+//Everything known about the models can be saved to a snapshot and restored
+//from it later, so a restarted script doesn't have to wait for the server to
+//send every model again.  Restored models are marked stale until the server
+//confirms them:
+//
+//  client.models.saveSnapshot("models.ndjson", function(err) { ... });
+//  client.models.loadSnapshot("models.ndjson", function(err, count) { ... });
+class ModelRegistry implements NodeJS.EventEmitter {
+    //The registry behind the static Model methods
+    static defaultRegistry: ModelRegistry = new ModelRegistry();
+    //Version of the snapshot format written by exportSnapshot()
+    static snapshotVersion: number = 1;
+
+    //How the tags in FCTYPE.TAGS packets are merged with a model's existing
+    //tags.  Unless this is set, TagMergePolicy.Replace.
+    tagMerge: TagMergePolicy;
+
+    private models: { [index: number]: ExpandedModel } = {};
+    private names: { [name: string]: ExpandedModel } = {};  //Models by lower cased nm
+    private indexedNames: { [index: number]: string } = {}; //And the key each model is indexed under
+    private tagIndex: { [tag: string]: { [index: number]: ExpandedModel } } = {}; //Models by lower cased tag
+    private indexedTags: { [index: number]: string[] } = {}; //And the keys each model is indexed under
+    private sets: ModelSet[] = [];
+
+    //Instance EventEmitter methods, mixed in after this class declaration
+    addListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    on: (event: string, listener: Function) => NodeJS.EventEmitter;
+    once: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeAllListeners: (event?: string) => NodeJS.EventEmitter;
+    setMaxListeners: (n: number) => void;
+    listeners: (event: string) => Function[];
+    emit: (event: string, ...args: any[]) => boolean;
+
+    //Retrieves a specific model instance by user id, creating the model
+    //instance if it does not already exist.
+    getModel(id: any): ExpandedModel {
+        if (typeof id === 'string') id = parseInt(id);
+        this.models[id] = this.models[id] || <ExpandedModel>(new Model(id, undefined, this));
+        return this.models[id];
+    }
+
+    //Whether a model with the given user id is already known
+    hasModel(id: number): boolean {
+        return this.models.hasOwnProperty(<any>id);
+    }
+
+    //All known models
+    getModels(): ExpandedModel[] {
+        var result: ExpandedModel[] = [];
+        for (var uid in this.models) {
+            if (this.models.hasOwnProperty(uid)) {
+                result.push(this.models[uid]);
+            }
+        }
+        return result;
+    }
+
+    //The model with the given name, or undefined if no model by that name is
+    //known.  Names are matched without regard to case, like on MFC.
+    getByName(nm: string): ExpandedModel {
+        var key = nm.toLowerCase();
+        return this.names.hasOwnProperty(key) ? this.names[key] : undefined;
+    }
+
+    //All known models with the given tag, ignoring case
+    getModelsByTag(tag: string): ExpandedModel[] {
+        var key = tag.toLowerCase();
+        var models: { [index: number]: ExpandedModel } = this.tagIndex.hasOwnProperty(key) ? this.tagIndex[key] : {};
+        return Object.keys(models).map(function(uid: string) { return models[parseInt(uid)]; });
+    }
+
+    //Every tag of any known model, in lower case
+    getTags(): string[] {
+        return Object.keys(this.tagIndex);
+    }
+
+    //All known models matching the given predicate or ModelFilter
+    findModels(filter: ModelPredicate|ModelFilter): ExpandedModel[] {
+        return this.getModels().filter(ModelRegistry.toPredicate(filter));
+    }
+
+    //A ModelSet of the models matching the given predicate or ModelFilter,
+    //kept up to date until it's disposed
+    watchModels(filter: ModelPredicate|ModelFilter): ModelSet {
+        var set = new ModelSet(this, ModelRegistry.toPredicate(filter));
+        this.sets.push(set);
+        return set;
+    }
+
+    //Everything known about every model, as a plain object ready for
+    //JSON.stringify
+    exportSnapshot(): ModelSnapshot {
+        return {
+            version: ModelRegistry.snapshotVersion,
+            time: Date.now(),
+            models: this.getModels().map(ModelRegistry.snapshotOf)
+        };
+    }
+
+    //Restores the models in a snapshot made by exportSnapshot(), returning
+    //how many models were restored.  Restored models have stale set to true
+    //until the server sends something about them, and models the server has
+    //already told us about are left untouched.  No property change events are
+    //fired for restored values, though ModelSets are updated as usual.
+    importSnapshot(snapshot: ModelSnapshot): number {
+        if (snapshot.version !== ModelRegistry.snapshotVersion) {
+            throw new Error("Unsupported model snapshot version " + snapshot.version);
+        }
+        var restored = 0;
+        snapshot.models.forEach((entry: ModelSnapshotEntry) => {
+            var model = this.getModel(entry.uid);
+            if (model.lastSeen !== undefined && !model.stale) {
+                return;
+            }
+            for (var key in entry) {
+                if (entry.hasOwnProperty(key) && key !== "uid") {
+                    model[key] = entry[key];
+                }
+            }
+            model.stale = true;
+            this.modelUpdated(model);
+            restored++;
+        });
+        return restored;
+    }
+
+    //Writes a snapshot of every model to the given file.  Paths ending in
+    //.ndjson or .jsonl get newline delimited JSON, a header line followed by
+    //one line per model, anything else a single JSON document.  The file is
+    //replaced only once the new snapshot is completely written.
+    saveSnapshot(path: string, callback: (err: Error) => void = function() { }): void {
+        var fs = require("fs");
+        var snapshot = this.exportSnapshot();
+        var text: string;
+        if (/\.(ndjson|jsonl)$/i.test(path)) {
+            var lines = [JSON.stringify({ version: snapshot.version, time: snapshot.time })];
+            snapshot.models.forEach(function(entry: ModelSnapshotEntry) {
+                lines.push(JSON.stringify(entry));
+            });
+            text = lines.join("\n") + "\n";
+        } else {
+            text = JSON.stringify(snapshot);
+        }
+
+        var tempPath = path + ".tmp";
+        fs.writeFile(tempPath, text, "utf8", function(err: Error) {
+            if (err) {
+                callback(err);
+                return;
+            }
+            fs.rename(tempPath, path, callback);
+        });
+    }
+
+    //Restores the models in a snapshot file written by saveSnapshot(), in
+    //either format, see importSnapshot()
+    loadSnapshot(path: string, callback: (err: Error, restored: number) => void = function() { }): void {
+        var fs = require("fs");
+        fs.readFile(path, "utf8", (err: Error, text: string) => {
+            if (err) {
+                callback(err, 0);
+                return;
+            }
+            var restored: number;
+            try {
+                restored = this.importSnapshot(ModelRegistry.parseSnapshot(text));
+            } catch (e) {
+                callback(new Error("Invalid model snapshot in '" + path + "': " + (e.message || e)), 0);
+                return;
+            }
+            callback(undefined, restored);
+        });
+    }
+
+    //Forgets every model, removing all listeners from each of them.  Anyone
+    //still holding on to one of the old Model instances will no longer see it
+    //updated, getModel() creates a fresh instance from now on.  Every ModelSet
+    //of this registry is emptied, emitting "remove" for each model.
+    clear(): void {
+        this.getModels().forEach(function(model: ExpandedModel) {
+            model.removeAllListeners();
+        });
+        this.models = {};
+        this.names = {};
+        this.indexedNames = {};
+        this.tagIndex = {};
+        this.indexedTags = {};
+        this.sets.forEach(function(set: ModelSet) {
+            set.clear();
+        });
+    }
+
+    //Forgets every model, disposes of every ModelSet and removes all
+    //listeners from the registry itself, for when it's no longer needed
+    dispose(): void {
+        this.clear();
+        this.sets.slice().forEach(function(set: ModelSet) {
+            set.dispose();
+        });
+        this.removeAllListeners();
+    }
+
+    //Updates the name and tag indexes and every ModelSet after a model changed
+    //
+    //This is an internal method, Model calls it after merging a packet.
+    modelUpdated(model: ExpandedModel): void {
+        if (this.models[model.uid] !== model) {
+            //A Model created on its own, outside of any registry
+            return;
+        }
+
+        var oldKey = this.indexedNames[model.uid];
+        var newKey = typeof model.nm === 'string' ? model.nm.toLowerCase() : undefined;
+        if (oldKey !== newKey) {
+            if (oldKey !== undefined && this.names[oldKey] === model) {
+                delete this.names[oldKey];
+            }
+            if (newKey !== undefined) {
+                this.names[newKey] = model;
+                this.indexedNames[model.uid] = newKey;
+            } else {
+                delete this.indexedNames[model.uid];
+            }
+        }
+
+        var oldTags = this.indexedTags[model.uid] || [];
+        var newTags = (model.tags || []).map(function(tag: string) { return tag.toLowerCase(); });
+        oldTags.forEach((tag: string) => {
+            if (newTags.indexOf(tag) === -1) {
+                delete this.tagIndex[tag][model.uid];
+                if (Object.keys(this.tagIndex[tag]).length === 0) {
+                    delete this.tagIndex[tag];
+                }
+            }
+        });
+        newTags.forEach((tag: string) => {
+            if (!this.tagIndex.hasOwnProperty(tag)) {
+                this.tagIndex[tag] = {};
+            }
+            this.tagIndex[tag][model.uid] = model;
+        });
+        this.indexedTags[model.uid] = newTags;
+
+        this.sets.forEach(function(set: ModelSet) {
+            set.update(model);
+        });
+    }
+
+    //Stops updating the given ModelSet
+    //
+    //This is an internal method, ModelSet.dispose() calls it.
+    unwatch(set: ModelSet): void {
+        var index = this.sets.indexOf(set);
+        if (index !== -1) {
+            this.sets.splice(index, 1);
+        }
+    }
+
+    //The data properties of a model, leaving out the Model's own plumbing
+    private static snapshotOf(model: ExpandedModel): ModelSnapshotEntry {
+        var entry: ModelSnapshotEntry = { uid: model.uid };
+        for (var key in model) {
+            if (model.hasOwnProperty(key) && key.charAt(0) !== "_" && typeof model[key] !== 'function'
+                && key !== "client" && key !== "registry" && key !== "stale") {
+                entry[key] = model[key];
+            }
+        }
+        return entry;
+    }
+
+    //Parses either snapshot format written by saveSnapshot()
+    private static parseSnapshot(text: string): ModelSnapshot {
+        try {
+            var whole: ModelSnapshot = JSON.parse(text);
+            //A newline delimited snapshot of no models is just its header
+            whole.models = whole.models || [];
+            return whole;
+        } catch (e) {
+            //Not a single document, so newline delimited
+        }
+        var lines = text.split("\n").filter(function(line: string) { return line.trim() !== ""; });
+        var snapshot: ModelSnapshot = JSON.parse(lines.shift());
+        snapshot.models = lines.map(function(line: string) { return JSON.parse(line); });
+        return snapshot;
+    }
+
+    //Turns a ModelFilter into the equivalent predicate
+    private static toPredicate(filter: ModelPredicate|ModelFilter): ModelPredicate {
+        if (typeof filter === 'function') {
+            return <ModelPredicate>filter;
+        }
+        var f = <ModelFilter>filter;
+
+        function oneOf(value: any, allowed: any): boolean {
+            return Array.isArray(allowed) ? allowed.indexOf(value) !== -1 : value === allowed;
+        }
+        function inRange(value: number, range: NumberRange): boolean {
+            return typeof value === 'number' && (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+        }
+        function hasTags(model: ExpandedModel, tags: string[]): boolean {
+            var own = (model.tags || []).map(function(tag: string) { return tag.toLowerCase(); });
+            return tags.every(function(tag: string) { return own.indexOf(tag.toLowerCase()) !== -1; });
+        }
+
+        return function(model: ExpandedModel): boolean {
+            return (f.vs === undefined || oneOf(model.vs, f.vs))
+                && (f.camscore === undefined || inRange(model.camscore, f.camscore))
+                && (f.rank === undefined || inRange(model.rank, f.rank))
+                && (f.rc === undefined || inRange(model.rc, f.rc))
+                && (f.continent === undefined || oneOf(model.continent, f.continent))
+                && (f.tags === undefined || hasTags(model, f.tags))
+                && (f.new_model === undefined || !!model.new_model === f.new_model)
+                && (f.stale === undefined || model.stale === f.stale)
+                && (f.where === undefined || f.where(model));
+        };
+    }
+}
+applyMixins(ModelRegistry, [EventEmitter]);
+
+//How FCTYPE.TAGS packets change a model's tags
+enum TagMergePolicy {
+    Replace,    //Each packet holds all of the model's tags
+    Merge       //Each packet holds tags to add to the model's tags
+};
+type ModelPredicate = (model: ExpandedModel) => boolean;
+//Describes the models wanted from ModelRegistry.findModels() or
+//watchModels().  A model must match every field given.
+interface ModelFilter {
+    vs?: STATE|STATE[];         //In this video state, or any of these
+    camscore?: NumberRange;
+    rank?: NumberRange;         //Remember that unranked models have rank 0
+    rc?: NumberRange;           //Number of users in the room
+    continent?: string|string[];//Two letter continent code, "EU", "NA" etc, or any of these
+    tags?: string[];            //Has all of these tags, ignoring case
+    new_model?: boolean;
+    stale?: boolean;            //Only known from a snapshot, or confirmed by the server
+    where?: ModelPredicate;     //Anything else the model must satisfy
+}
+//What exportSnapshot() returns and importSnapshot() takes
+interface ModelSnapshot {
+    version: number;            //ModelRegistry.snapshotVersion when it was made
+    time: number;               //When it was made, in ms
+    models: ModelSnapshotEntry[];
+}
+//Every property of a model, as merged from the server, including tags,
+//flags and lastSeen
+interface ModelSnapshotEntry {
+    uid: number;
+    [key: string]: any;
+}
+//An inclusive range, either end may be left open
+interface NumberRange {
+    min?: number;
+    max?: number;
+}
+
+exports.ModelRegistry = ModelRegistry;
+exports.TagMergePolicy = TagMergePolicy;
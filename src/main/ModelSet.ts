@@ -0,0 +1,95 @@
+var EventEmitter: any = require('events').EventEmitter;
+
+//ModelSet is a live view of the models in a ModelRegistry that match some
+//condition, created by ModelRegistry.watchModels() or Model.watchModels().
+//It starts out with every matching model the registry already knows, and
+//from then on every model is checked again whenever it changes:
+//
+//  var free = client.models.watchModels({ vs: STATE.FreeChat });
+//  free.on("add", function(model) { console.log(model.nm + " is in free chat"); });
+//  free.on("remove", function(model) { console.log(model.nm + " left free chat"); });
+//
+//ModelSet emits these events:
+//  "add"       - (model) A model started matching
+//  "remove"    - (model) A model stopped matching, or the registry was cleared
+//
+//Call dispose() once the set is no longer needed, the registry keeps every
+//set it created up to date until then.
+class ModelSet implements NodeJS.EventEmitter {
+    private registry: ModelRegistry;
+    private predicate: ModelPredicate;
+    private members: { [index: number]: ExpandedModel } = {};
+
+    constructor(registry: ModelRegistry, predicate: ModelPredicate) {
+        this.registry = registry;
+        this.predicate = predicate;
+        registry.findModels(predicate).forEach((model: ExpandedModel) => {
+            this.members[model.uid] = model;
+        });
+    }
+
+    //Instance EventEmitter methods, mixed in after this class declaration
+    addListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    on: (event: string, listener: Function) => NodeJS.EventEmitter;
+    once: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeAllListeners: (event?: string) => NodeJS.EventEmitter;
+    setMaxListeners: (n: number) => void;
+    listeners: (event: string) => Function[];
+    emit: (event: string, ...args: any[]) => boolean;
+
+    //All models currently in the set
+    getModels(): ExpandedModel[] {
+        var result: ExpandedModel[] = [];
+        for (var uid in this.members) {
+            if (this.members.hasOwnProperty(uid)) {
+                result.push(this.members[uid]);
+            }
+        }
+        return result;
+    }
+
+    //Whether the model with the given user id is in the set
+    has(uid: number): boolean {
+        return this.members.hasOwnProperty(<any>uid);
+    }
+
+    get size(): number {
+        return Object.keys(this.members).length;
+    }
+
+    //Adds or removes the given model as needed after it changed
+    //
+    //This is an internal method, ModelRegistry calls it.
+    update(model: ExpandedModel): void {
+        var matches = !!this.predicate(model);
+        if (matches && !this.has(model.uid)) {
+            this.members[model.uid] = model;
+            this.emit("add", model);
+        } else if (!matches && this.has(model.uid)) {
+            delete this.members[model.uid];
+            this.emit("remove", model);
+        }
+    }
+
+    //Removes every model from the set
+    //
+    //This is an internal method, ModelRegistry.clear() calls it.
+    clear(): void {
+        var removed = this.getModels();
+        this.members = {};
+        removed.forEach((model: ExpandedModel) => {
+            this.emit("remove", model);
+        });
+    }
+
+    //Stops updating this set and removes all of its listeners
+    dispose(): void {
+        this.registry.unwatch(this);
+        this.members = {};
+        this.removeAllListeners();
+    }
+}
+applyMixins(ModelSet, [EventEmitter]);
+
+exports.ModelSet = ModelSet;
@@ -22,6 +22,20 @@ class Packet {
     private _pMessage: string;
     private _chatString: string;
 
+    //Every packet on the wire starts with 7 big-endian int32 values:
+    // 0 = "Magic" value that is *always* -2027771214
+    // 1 = "FCType" that identifies the type of packet this is (FCType being a MyFreeCams defined thing)
+    // 2 = nFrom
+    // 3 = nTo
+    // 4 = nArg1
+    // 5 = nArg2
+    // 6 = sPayload, the size of the payload
+    //Followed by sPayload bytes of sMessage, the actual payload.
+    static headerLength: number = 7 * 4;
+
+    //The client argument is optional, packets decoded or built without a
+    //Client (from a packet capture for instance) work fine but can't resolve
+    //aboutModel against a session id.
     constructor(client: Client, FCType: FCTYPE, nFrom: number, nTo: number, nArg1: number, nArg2: number, sPayload: number, sMessage: AnyMessage) {
         this.client = client; //@TODO - Break this circular reference, for now it's used in .aboutModel
 
@@ -34,13 +48,118 @@ class Packet {
         this.sMessage = sMessage;
     }
 
+    //Decodes a single packet starting at the given offset of buf.  Returns
+    //undefined if buf does not yet hold the complete packet, which is
+    //normal when reading from a socket, and throws if the bytes at offset
+    //are not the start of a packet at all.
+    //
+    //The size of the decoded packet on the wire is always
+    //Packet.headerLength + packet.sPayload, which is how callers can advance
+    //to the next packet in the buffer.
+    static fromBuffer(buf: Buffer, offset: number = 0, client?: Client): Packet {
+        if (buf.length - offset < Packet.headerLength) {
+            return undefined;
+        }
+
+        var magic = buf.readInt32BE(offset);
+        if (magic !== MAGIC) {
+            //Magic value did not match?  In that case, all bets are off.  We no longer understand the MFC stream and cannot recover...
+            //This is usually caused by a mis-alignment error due to incorrect buffer management (bugs in this code or the code that writes the buffer from the network)
+            throw new Error("Invalid packet received! - " + magic + " Length == " + buf.length);
+        }
+
+        var payloadLength = buf.readInt32BE(offset + 24);
+        if (payloadLength < 0) {
+            //Just as hopeless, and it would have us step backwards to the next packet
+            throw new Error("Invalid packet received! - payload length " + payloadLength + " Length == " + buf.length);
+        }
+        var payloadStart = offset + Packet.headerLength;
+        if (buf.length - payloadStart < payloadLength) {
+            return undefined;
+        }
+
+        var sMessage: AnyMessage;
+        if (payloadLength > 0) {
+            var strParam = buf.toString('utf8', payloadStart, payloadStart + payloadLength);
+            try {
+                sMessage = JSON.parse(strParam);
+            } catch (e) {
+                sMessage = strParam;
+            }
+        }
+
+        return Packet.create(
+            client,
+            buf.readInt32BE(offset + 4), //FCType
+            buf.readInt32BE(offset + 8), //nFrom
+            buf.readInt32BE(offset + 12), //nTo
+            buf.readInt32BE(offset + 16), //nArg1
+            buf.readInt32BE(offset + 20), //nArg2
+            payloadLength, //sPayload
+            sMessage //sMessage
+            );
+    }
+
+    //Constructs a packet of the Packet subclass matching FCType, if there is
+    //one, or a plain Packet otherwise.  Every received packet is created
+    //through here, so listeners can rely on receiving, say, a TipPacket for
+    //every TOKENINC.
+    static create(client: Client, FCType: FCTYPE, nFrom: number, nTo: number, nArg1: number, nArg2: number, sPayload: number, sMessage: AnyMessage): Packet {
+        switch (FCType) {
+            case FCTYPE.LOGIN:
+                return new LoginPacket(client, FCType, nFrom, nTo, nArg1, nArg2, sPayload, sMessage);
+            case FCTYPE.SESSIONSTATE:
+                return new SessionStatePacket(client, FCType, nFrom, nTo, nArg1, nArg2, sPayload, sMessage);
+            case FCTYPE.CMESG:
+            case FCTYPE.PMESG:
+                return new ChatPacket(client, FCType, nFrom, nTo, nArg1, nArg2, sPayload, sMessage);
+            case FCTYPE.TOKENINC:
+                return new TipPacket(client, FCType, nFrom, nTo, nArg1, nArg2, sPayload, sMessage);
+            case FCTYPE.TAGS:
+                return new TagsPacket(client, FCType, nFrom, nTo, nArg1, nArg2, sPayload, sMessage);
+            case FCTYPE.JOINCHAN:
+                return new JoinChanPacket(client, FCType, nFrom, nTo, nArg1, nArg2, sPayload, sMessage);
+            case FCTYPE.USERNAMELOOKUP:
+                return new UserNameLookupPacket(client, FCType, nFrom, nTo, nArg1, nArg2, sPayload, sMessage);
+            default:
+                return new Packet(client, FCType, nFrom, nTo, nArg1, nArg2, sPayload, sMessage);
+        }
+    }
+
+    //Encodes this packet in the MFC wire format.  A string sMessage is sent
+    //as-is, any other sMessage is sent as JSON.  sPayload is ignored here
+    //and recomputed from the actual encoded message.
+    toBuffer(): Buffer {
+        var payload: string;
+        if (this.sMessage !== undefined && this.sMessage !== null) {
+            payload = typeof this.sMessage === 'string' ? <string>this.sMessage : JSON.stringify(this.sMessage);
+        }
+
+        var payloadLength = payload ? Buffer.byteLength(payload, 'utf8') : 0;
+        var buf = new Buffer(Packet.headerLength + payloadLength);
+
+        buf.writeInt32BE(MAGIC, 0);
+        buf.writeInt32BE(this.FCType, 4);
+        buf.writeInt32BE(this.nFrom, 8);
+        buf.writeInt32BE(this.nTo, 12);
+        buf.writeInt32BE(this.nArg1, 16);
+        buf.writeInt32BE(this.nArg2, 20);
+        buf.writeInt32BE(payloadLength, 24);
+
+        if (payloadLength > 0) {
+            buf.write(payload, Packet.headerLength, payloadLength, 'utf8');
+        }
+
+        return buf;
+    }
+
     //Try to determine which model this packet is loosely "about"
     //meaning whose receiving the tip/chat/status update/etc
     get aboutModel(): ExpandedModel {
         //This whole method is black magic that may or may not be correct :)
         if (this._aboutModel === undefined) {
             var id = -1;
-            if (this.nTo !== this.client.sessionId) {
+            if (this.client === undefined || this.nTo !== this.client.sessionId) {
                 id = this.nTo;
             } else {
                 if (this.nArg2 > 1000) {
@@ -55,7 +174,7 @@ class Packet {
             if (id > 100000000) {
                 id = id - 100000000;
             }
-            this._aboutModel = Model.getModel(id);
+            this._aboutModel = this.client !== undefined ? this.client.models.getModel(id) : Model.getModel(id);
         }
         return this._aboutModel;
     }
@@ -93,7 +212,8 @@ class Packet {
             return msg;
         } catch (e) {
             //In practice I've never seen this happen, but if it does, it's not serious enough to tear down the whole client...
-            log("Error parsing emotes from '" + msg + "': " + e);
+            var logger: Logger = this.client !== undefined ? this.client.logger : new ConsoleLogger();
+            logger.log(LogLevel.Warn, "Error parsing emotes from '" + msg + "': " + e, { fctype: FCTYPE[this.FCType] });
             return undefined;
         }
     }
@@ -134,6 +254,9 @@ class Packet {
                         break;
                     case FCTYPE.TOKENINC:
                         var tok: FCTokenIncResponse = <FCTokenIncResponse>(this.sMessage);
+                        if (!Array.isArray(tok.u) || !Array.isArray(tok.m)) {
+                            break;
+                        }
                         this._chatString = tok.u[2] + " has tipped " + tok.m[2] + " " + tok.tokens + " tokens" + (this.pMessage ? (": '" + this.pMessage + "'") : ".");
                         break;
                 }
@@ -143,6 +266,15 @@ class Packet {
         return this._chatString;
     }
 
+    //sMessage, but with the password of an outgoing LOGIN masked, for
+    //anything that may end up in a log or a file
+    get redactedMessage(): AnyMessage {
+        if (this.FCType === FCTYPE.LOGIN && typeof this.sMessage === 'string') {
+            return (<string>this.sMessage).replace(/:[\s\S]*$/, ":********");
+        }
+        return this.sMessage;
+    }
+
     toString(): string {
         function censor(key: string, value: any) {
             if (key === "client") {
@@ -153,10 +285,145 @@ class Packet {
                 //Replace the numerical FCType value with it's more readable textual form
                 return FCTYPE[this.FCType];
             }
+            if (key === "sMessage") {
+                return this.redactedMessage;
+            }
             return value;
         }
         return JSON.stringify(this, censor);
     }
 }
 
+//The Packet subclasses below give the generic nFrom/nTo/nArg1/nArg2/sMessage
+//fields of specific FCTYPEs their actual meaning, as best as I understand it.
+//The raw fields are all still there too.
+
+//FCTYPE.LOGIN, the server's response to our login
+class LoginPacket extends Packet {
+    sMessage: FCTypeLoginResponse;
+
+    get responseCode(): FCRESPONSE { return this.nArg1; }
+    get succeeded(): boolean { return this.nArg1 === FCRESPONSE.SUCCESS; }
+    get sessionId(): number { return this.nTo; }
+    get userId(): number { return this.nArg2; }
+    get chatName(): string { return this.sMessage; }
+}
+
+//FCTYPE.SESSIONSTATE, an update to some of a model's (or other user's) details
+class SessionStatePacket extends Packet {
+    sMessage: Message;
+
+    get modelId(): number { return this.nArg2; }
+}
+
+//FCTYPE.CMESG and FCTYPE.PMESG, chat room messages and private messages
+class ChatPacket extends Packet {
+    sMessage: Message;
+
+    get isPrivate(): boolean { return this.FCType === FCTYPE.PMESG; }
+    get senderId(): number { return this.sMessage ? this.sMessage.uid : undefined; }
+    get senderName(): string { return this.sMessage ? this.sMessage.nm : undefined; }
+    get senderLevel(): FCLEVEL { return this.sMessage ? this.sMessage.lv : undefined; }
+    //The message with any emotes decoded, same as pMessage
+    get text(): string { return this.pMessage; }
+    //The room this message was sent to, undefined for PMs
+    get roomId(): number { return this.isPrivate ? undefined : this.nTo; }
+    //The model whose room this message was sent to, undefined for PMs
+    get modelId(): number { return this.isPrivate ? undefined : this.nTo - 100000000; }
+    //True for messages from the room's backlog, sent when we join a room with
+    //history, rather than messages sent just now.  Error replies, which have
+    //no message, are never history, even though FCCHAN.ERR_GUESTMUTE has the
+    //same value as FCCHAN.OLDMSG.
+    get isHistory(): boolean {
+        return !this.isPrivate && typeof this.sMessage === 'object' && this.sMessage !== null && (this.nArg2 & FCCHAN.OLDMSG) !== 0;
+    }
+    //When the message was sent, according to the server if it told us
+    get time(): Date {
+        return this.sMessage && this.sMessage.ts !== undefined ? new Date(this.sMessage.ts * 1000) : new Date();
+    }
+}
+
+//FCTYPE.TOKENINC, a tip
+class TipPacket extends Packet {
+    sMessage: FCTokenIncResponse;
+
+    //Each of these is undefined if the server left it out
+    get tokens(): number { return this.sMessage ? this.sMessage.tokens : undefined; }
+    get senderId(): number { return <number>this.item("m", 0); }
+    get senderName(): string { return <string>this.item("u", 2); }
+    get modelId(): number { return <number>this.item("m", 1); }
+    get modelName(): string { return <string>this.item("m", 2); }
+    //Bit mask of TKOPT flags
+    get flags(): number { return this.sMessage ? this.sMessage.flags : undefined; }
+    //The tip message with any emotes decoded, same as pMessage
+    get text(): string { return this.pMessage; }
+
+    //The item at index of the array sMessage[name], if there is one
+    private item(name: string, index: number): number|string {
+        var array: any = this.sMessage ? (<any>this.sMessage)[name] : undefined;
+        return Array.isArray(array) ? array[index] : undefined;
+    }
+}
+
+//FCTYPE.TAGS, the tags of one or more models
+class TagsPacket extends Packet {
+    sMessage: FCTypeTagsResponse;
+
+    get modelIds(): number[] {
+        var ids: number[] = [];
+        for (var key in this.sMessage) {
+            if (this.sMessage.hasOwnProperty(key)) {
+                ids.push(parseInt(key));
+            }
+        }
+        return ids;
+    }
+    tagsFor(modelId: number): string[] { return this.sMessage[modelId]; }
+}
+
+//FCTYPE.JOINCHAN, someone (possibly us) joining or leaving a chat room
+class JoinChanPacket extends Packet {
+    sMessage: Message;
+
+    get roomId(): number { return this.nArg1; }
+    get modelId(): number { return this.nArg1 - 100000000; }
+    //Bit mask of FCCHAN flags describing what happened
+    get chanOp(): number { return this.nArg2; }
+    get isJoin(): boolean { return (this.nArg2 & FCCHAN.JOIN) !== 0; }
+    get isPart(): boolean { return (this.nArg2 & FCCHAN.PART) !== 0; }
+    //Details of the user who joined or left, undefined for the member lists
+    //sent with FCCHAN.LIST and FCCHAN.BATCHPART and for errors
+    get member(): Message { return typeof this.sMessage === 'object' && this.sMessage !== null && !Array.isArray(this.sMessage) ? this.sMessage : undefined; }
+    //Details of every user in this packet, whether it's for one member or a list
+    get members(): Message[] {
+        var msg: any = this.sMessage;
+        if (Array.isArray(msg)) {
+            //BATCHPART lists may just be user ids
+            return msg.map((item: any) => typeof item === 'number' ? { uid: item, sid: undefined } : item);
+        }
+        return this.member !== undefined ? [this.member] : [];
+    }
+    //For a JOINCHAN without any member details, this is the FCCHAN error code
+    //telling us why our request failed, like FCCHAN.ERR_NOCHANNEL
+    get errorCode(): FCCHAN { return this.member === undefined && !Array.isArray(this.sMessage) ? this.nArg2 : undefined; }
+}
+
+//FCTYPE.USERNAMELOOKUP, the response to a user lookup
+class UserNameLookupPacket extends Packet {
+    sMessage: Message;
+
+    //The query id that was sent in nArg1 of the lookup, see Client.queryUser
+    get queryId(): number { return this.nArg1; }
+    get responseCode(): FCRESPONSE { return this.nArg2; }
+    //Details of the user that was found, undefined if there was no such user
+    get user(): Message { return typeof this.sMessage === 'object' && this.sMessage !== null ? this.sMessage : undefined; }
+}
+
 exports.Packet = Packet;
+exports.LoginPacket = LoginPacket;
+exports.SessionStatePacket = SessionStatePacket;
+exports.ChatPacket = ChatPacket;
+exports.TipPacket = TipPacket;
+exports.TagsPacket = TagsPacket;
+exports.JoinChanPacket = JoinChanPacket;
+exports.UserNameLookupPacket = UserNameLookupPacket;
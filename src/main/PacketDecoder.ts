@@ -0,0 +1,126 @@
+//PacketDecoder turns the raw byte stream from an MFC chat server back into
+//complete Packets.  Data can be written to it in chunks of any size, split
+//anywhere, exactly as it comes off a socket or out of a packet capture, and
+//each write returns the packets that were completed by that chunk.
+//
+//It has no dependency on a live connection, so it's equally useful for
+//Client itself, for proxies, or for unit testing the framing.
+//
+//Internally the decoder keeps a single buffer that it reads from and appends
+//to in place.  It only grows when a packet doesn't fit, and never beyond what
+//the largest allowed packet needs, so a burst of thousands of small packets
+//after login (the STATEDUMP and SESSIONSTATE flood) costs no more memory than
+//the biggest of them.
+class PacketDecoder {
+    //Default for the largest sMessage we'll accept.  Real MFC payloads are
+    //a few KB at most, anything near this is a corrupt or hostile stream.
+    static defaultMaxPayloadSize: number = 1024 * 1024;
+    private static initialBufferSize: number = 16 * 1024;
+
+    //Set when the stream stopped making sense, see write()
+    error: Error;
+
+    private client: Client;
+    private maxPayloadSize: number;
+    private buffer: Buffer;
+    private readPos: number;   //Start of the first unread byte in buffer
+    private writePos: number;  //End of the received bytes in buffer
+    private streamPos: number; //Total bytes consumed so far, for error messages
+
+    //If given, client is attached to every decoded Packet, see the Packet
+    //constructor for what that is used for.
+    constructor(client?: Client, maxPayloadSize: number = PacketDecoder.defaultMaxPayloadSize) {
+        this.client = client;
+        this.maxPayloadSize = maxPayloadSize;
+        this.reset();
+    }
+
+    //Appends chunk to any partial packet left over from previous writes and
+    //returns every complete packet now available, in the order received.
+    //
+    //If the stream stops making sense (a packet doesn't start with MAGIC or
+    //claims a payload bigger than maxPayloadSize) the packets decoded before
+    //that point are still returned, and the problem is described by the error
+    //property.  There is no way to resynchronize after that, so every further
+    //write is ignored until reset() is called, and the connection should be
+    //dropped.
+    write(chunk: Buffer): Packet[] {
+        var packets: Packet[] = [];
+        var chunkPos = 0;
+
+        while (this.error === undefined && chunkPos < chunk.length) {
+            this.makeRoom();
+            var copied = chunk.copy(this.buffer, this.writePos, chunkPos, Math.min(chunk.length, chunkPos + this.buffer.length - this.writePos));
+            this.writePos += copied;
+            chunkPos += copied;
+            this.readPackets(packets);
+        }
+
+        return packets;
+    }
+
+    //Discards any partially received packet and any previous error, used when
+    //the underlying stream is restarted
+    reset(): void {
+        this.error = undefined;
+        this.buffer = new Buffer(PacketDecoder.initialBufferSize);
+        this.readPos = 0;
+        this.writePos = 0;
+        this.streamPos = 0;
+    }
+
+    //Reads as many complete packets from the buffer as are available
+    private readPackets(packets: Packet[]): void {
+        while (this.writePos - this.readPos >= Packet.headerLength) {
+            var magic = this.buffer.readInt32BE(this.readPos);
+            if (magic !== MAGIC) {
+                //Magic value did not match?  In that case, all bets are off.  We no longer understand the MFC stream and cannot recover...
+                //This is usually caused by a mis-alignment error due to incorrect buffer management (bugs in this code or the code that writes the buffer from the network)
+                this.error = new Error("Invalid packet received at stream offset " + this.streamPos + ", expected magic value " + MAGIC + " but got " + magic);
+                return;
+            }
+
+            var payloadLength = this.buffer.readInt32BE(this.readPos + 24);
+            if (payloadLength < 0 || payloadLength > this.maxPayloadSize) {
+                this.error = new Error("Invalid packet received at stream offset " + this.streamPos + ", payload length " + payloadLength + " is outside of the allowed range 0-" + this.maxPayloadSize);
+                return;
+            }
+
+            var packetLength = Packet.headerLength + payloadLength;
+            if (this.writePos - this.readPos < packetLength) {
+                //Only part of this packet has arrived so far, wait for more data
+                return;
+            }
+
+            packets.push(Packet.fromBuffer(this.buffer.slice(this.readPos, this.readPos + packetLength), 0, this.client));
+            this.readPos += packetLength;
+            this.streamPos += packetLength;
+        }
+    }
+
+    //Makes sure there's free space at the end of the buffer for more data,
+    //first by moving any unread bytes to the front, and then, if a partial
+    //packet already fills the whole buffer, by growing it
+    private makeRoom(): void {
+        if (this.readPos === this.writePos) {
+            this.readPos = this.writePos = 0;
+        }
+        if (this.writePos < this.buffer.length) {
+            return;
+        }
+
+        if (this.readPos > 0) {
+            this.buffer.copy(this.buffer, 0, this.readPos, this.writePos);
+            this.writePos -= this.readPos;
+            this.readPos = 0;
+        } else {
+            //The maximum packet size bounds this.  Anything bigger fails the
+            //payload length check in readPackets before the buffer fills up.
+            var grown = new Buffer(Math.min(this.buffer.length * 2, Packet.headerLength + this.maxPayloadSize));
+            this.buffer.copy(grown, 0, 0, this.writePos);
+            this.buffer = grown;
+        }
+    }
+}
+
+exports.PacketDecoder = PacketDecoder;
@@ -0,0 +1,183 @@
+//ReplayClient plays back a capture file recorded by a Client, see
+//CaptureRecorder, instead of connecting to MFC.  It is a Client in every
+//other way, so the received data goes through exactly the same decoding,
+//model merging and events, and scripts can be run against it unchanged:
+//
+//  var client = new ReplayClient("session.capture", { speed: 10 });
+//  client.on("tip", function(tip) { ... });
+//  client.connect();
+//
+//Received data is replayed with the original timing between frames, divided
+//by the speed option, and each connection in the capture starts with
+//"CLIENT_CONNECTED" and ends with "CLIENT_DISCONNECTED", like the original
+//did.  Nothing is ever sent.  Packets the script sends are simply discarded,
+//and the ones the original client sent, recorded as "out" frames, are
+//skipped.  As no response will ever come, sendChat(), sendPM(), joinRoom()
+//and queryUser() reject right away.
+class ReplayClient extends Client {
+    private capturePath: string;
+    private speed: number;
+    private replaying: boolean = false;
+    private replayTimer: NodeJS.Timer;  //Waiting for the next frame's time
+    private replayImmediate: Object;    //Or for the next turn of the event loop, from setImmediate
+
+    constructor(capturePath: string, options: ReplayOptions = {}) {
+        super("guest", "guest", { reconnect: false, models: options.models, maxPayloadSize: options.maxPayloadSize, logger: options.logger });
+        this.capturePath = capturePath;
+        this.speed = options.speed !== undefined ? options.speed : 1;
+    }
+
+    //Reads all frames of a capture file
+    static readCapture(path: string, callback: (err: Error, frames: CaptureFrame[]) => void): void {
+        var fs = require("fs");
+        fs.readFile(path, "utf8", function(err: Error, text: string) {
+            if (err) {
+                callback(err, undefined);
+                return;
+            }
+            var frames: CaptureFrame[];
+            try {
+                frames = text.split("\n").filter(function(line: string) {
+                    return line.trim() !== "";
+                }).map(function(line: string) {
+                    return JSON.parse(line);
+                });
+            } catch (e) {
+                callback(new Error("Invalid capture file '" + path + "': " + e.message), undefined);
+                return;
+            }
+            callback(undefined, frames);
+        });
+    }
+
+    //Starts replaying the capture from the beginning.  The returned promise
+    //resolves as soon as the capture is loaded and the replay has started,
+    //or rejects if the capture can't be read.  doLogin is ignored, whatever
+    //the original client did is what's replayed.
+    connect(doLogin: boolean = true, onConnect: () => void = undefined): Promise<void> {
+        this.stopReplay();
+        var started = new Promise<void>((resolve, reject) => {
+            ReplayClient.readCapture(this.capturePath, (err: Error, frames: CaptureFrame[]) => {
+                if (err) {
+                    this.log("Unable to replay '" + this.capturePath + "': " + err.message, LogLevel.Error);
+                    reject(err);
+                    return;
+                }
+                this.log("Replaying " + frames.length + " frames from '" + this.capturePath + "'...");
+                this.replaying = true;
+                //A capture started in the middle of a connection doesn't begin with one
+                if (frames.length === 0 || frames[0].direction !== "connect") {
+                    this.emit("CLIENT_CONNECTED");
+                }
+                resolve();
+                if (onConnect !== undefined) {
+                    onConnect();
+                }
+                this.play(frames, 0);
+            });
+        });
+        return this.ignoreUnhandled(started);
+    }
+
+    //Stops the replay
+    disconnect(): void {
+        if (this.replaying) {
+            this.stopReplay();
+            this.socketClosed();
+        }
+    }
+
+    sendChat(id: number, msg: string, format: boolean = false, timeout: number = Client.defaultResponseTimeout): Promise<ChatPacket> {
+        return this.cannotSend<ChatPacket>("sendChat");
+    }
+
+    sendPM(id: number, msg: string, format: boolean = false, timeout: number = Client.defaultResponseTimeout): Promise<ChatPacket> {
+        return this.cannotSend<ChatPacket>("sendPM");
+    }
+
+    joinRoom(id: number, options: JoinRoomOptions|number = {}): Promise<Packet> {
+        return this.cannotSend<Packet>("joinRoom");
+    }
+
+    queryUser(user: string|number, timeout: number = Client.defaultResponseTimeout): Promise<ExpandedModel> {
+        return this.cannotSend<ExpandedModel>("queryUser");
+    }
+
+    //Nothing is sent during a replay, the packet is only built and returned
+    protected sendPacket(packet: Packet): Packet {
+        this.log("TxCmd Discarding - nType: " + packet.FCType + ", nTo: " + packet.nTo + ", nArg1: " + packet.nArg1 + ", nArg2: " + packet.nArg2 + ", sMsg:" + packet.redactedMessage, LogLevel.Trace, { fctype: FCTYPE[packet.FCType] });
+        return packet;
+    }
+
+    //A replay has no connection to drop, so a protocol error ends it
+    protected dropConnection(): void {
+        this.disconnect();
+    }
+
+    //Replays the frame at index, then schedules the next one
+    private play(frames: CaptureFrame[], index: number): void {
+        if (!this.replaying) {
+            return;
+        }
+        if (index >= frames.length) {
+            this.log("Replay of '" + this.capturePath + "' complete.");
+            this.disconnect();
+            return;
+        }
+
+        var frame = frames[index];
+        switch (frame.direction) {
+            case "connect":
+                //A new connection means the previous one ended
+                if (index > 0) {
+                    this.socketClosed();
+                }
+                this.emit("CLIENT_CONNECTED");
+                break;
+            case "in":
+                this._readData(new Buffer(frame.data, "base64"));
+                break;
+            default:
+                //What the original client sent
+                break;
+        }
+
+        //Each frame gets its own turn of the event loop, as data from a
+        //socket would, so promise callbacks run between frames just like
+        //they did when the capture was recorded
+        var next = frames[index + 1];
+        var delay = next !== undefined && this.speed > 0 ? (next.time - frame.time) / this.speed : 0;
+        if (delay > 0) {
+            this.replayTimer = setTimeout(() => this.play(frames, index + 1), delay);
+        } else {
+            this.replayImmediate = setImmediate(() => this.play(frames, index + 1));
+        }
+    }
+
+    //The rejection of a method that needs a response from the server
+    private cannotSend<T>(method: string): Promise<T> {
+        return this.ignoreUnhandled(new Promise<T>(function(resolve, reject) {
+            reject(new Error(method + " isn't possible during a replay, nothing is sent"));
+        }));
+    }
+
+    private stopReplay(): void {
+        this.replaying = false;
+        clearTimeout(this.replayTimer);
+        clearImmediate(this.replayImmediate);
+    }
+}
+
+interface ReplayOptions {
+    //How many times faster than real time to replay, 0 for as fast as
+    //possible.  Defaults to 1, the original timing.
+    speed?: number;
+    //The registry to keep the replayed models in, see ClientOptions.models
+    models?: ModelRegistry;
+    //See ClientOptions.maxPayloadSize
+    maxPayloadSize?: number;
+    //See ClientOptions.logger
+    logger?: Logger;
+}
+
+exports.ReplayClient = ReplayClient;
@@ -0,0 +1,197 @@
+var EventEmitter: any = require('events').EventEmitter;
+
+//Room tracks a single model's chat room as seen by one Client: whether we're
+//in it, and who else is.  Get one via Client.getRoom().
+//
+//The member list is built from the FCTYPE.JOINCHAN packets MFC sends for the
+//rooms we've joined, starting with the full list of members it sends when we
+//join (FCCHAN.LIST) and then one packet for every member joining or leaving.
+//Each member is the same Model instance client.models.getModel() returns for
+//that user, with the member details MFC gave us (nm, lv, flags, etc) merged in.
+//
+//Room emits these events:
+//  "join"          - (room, member) A member joined the room
+//  "part"          - (room, member) A member left the room
+//  "memberUpdate"  - (room, member) We received new details for a current member
+//  "state"         - (room, oldState, newState) Our own RoomState in this room changed
+//  "history"       - (room, messages) The backlog of chat messages MFC sent
+//                    when we joined, as ChatPackets sorted oldest first
+//
+//Backlog messages are only sent when the room is joined with the history
+//option of Client.joinRoom().  They arrive as ordinary CMESG packets, with
+//ChatPacket.isHistory set, and are still emitted by Client as CMESG events
+//like any other.  Room collects them and emits them together once the
+//backlog is complete, which is when the first live message arrives or after
+//historyDelay milliseconds pass without another backlog message.
+class Room implements NodeJS.EventEmitter {
+    id: number;         //The room id, which is the model's user id + 100000000
+    modelId: number;
+    model: ExpandedModel;
+    state: RoomState = RoomState.Left;
+    error: FCCHAN;      //Why we couldn't join, when state is RoomState.Error
+
+    //How long, in milliseconds, to wait for more backlog messages before
+    //emitting "history"
+    static historyDelay: number = 1000;
+
+    private client: Client;
+    private members: { [index: number]: ExpandedModel } = {};
+    private history: ChatPacket[] = [];
+    private historyTimer: NodeJS.Timer;
+
+    constructor(client: Client, id: number) {
+        //Convert a user ID to the corresponding room ID (unless it's already a room ID)
+        if (id < 100000000) {
+            id = id + 100000000;
+        }
+        this.client = client;
+        this.id = id;
+        this.modelId = id - 100000000;
+        this.model = client.models.getModel(this.modelId);
+    }
+
+    //Instance EventEmitter methods, mixed in after this class declaration
+    addListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    on: (event: string, listener: Function) => NodeJS.EventEmitter;
+    once: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeAllListeners: (event?: string) => NodeJS.EventEmitter;
+    setMaxListeners: (n: number) => void;
+    listeners: (event: string) => Function[];
+    emit: (event: string, ...args: any[]) => boolean;
+
+    //All current members of the room
+    getMembers(): ExpandedModel[] {
+        var result: ExpandedModel[] = [];
+        for (var uid in this.members) {
+            if (this.members.hasOwnProperty(uid)) {
+                result.push(this.members[uid]);
+            }
+        }
+        return result;
+    }
+
+    //The member with the given user id, or undefined if that user isn't in the room
+    getMember(uid: number): ExpandedModel {
+        return this.members.hasOwnProperty(<any>uid) ? this.members[uid] : undefined;
+    }
+
+    get memberCount(): number {
+        return Object.keys(this.members).length;
+    }
+
+    //Updates the room with the contents of a JOINCHAN packet for this room
+    //
+    //This is an internal method, Client calls it for every JOINCHAN it receives.
+    mergePacket(packet: JoinChanPacket): void {
+        assert(packet.roomId === this.id, "Merging packet meant for a different room! (" + this.id + " !== " + packet.roomId + ")", packet);
+
+        //A JOINCHAN without any member details is the answer to our own
+        //request to join, telling us why it failed
+        if (packet.errorCode !== undefined) {
+            if (this.state === RoomState.Joining) {
+                this.error = packet.errorCode;
+                this.setState(RoomState.Error);
+            }
+            return;
+        }
+
+        packet.members.forEach((member: Message) => {
+            if (member.uid === undefined) {
+                return;
+            }
+            var isUs = member.uid === this.client.uid || (member.sid !== undefined && member.sid === this.client.sessionId);
+
+            if (packet.isPart || (packet.chanOp & FCCHAN.BATCHPART) !== 0) {
+                var leaving = this.getMember(member.uid);
+                if (leaving !== undefined) {
+                    delete this.members[member.uid];
+                    this.emit("part", this, leaving);
+                }
+                if (isUs) {
+                    this.setState(RoomState.Left);
+                }
+            } else {
+                var known = this.getMember(member.uid) !== undefined;
+                var model = this.client.models.getModel(member.uid);
+                model.mergePacket(packet);
+                this.members[member.uid] = model;
+                this.emit(known ? "memberUpdate" : "join", this, model);
+                if (isUs && packet.isJoin) {
+                    this.setState(RoomState.Joined);
+                }
+            }
+        });
+    }
+
+    //Collects backlog messages for the "history" event
+    //
+    //This is an internal method, Client calls it for every CMESG to this room.
+    chatReceived(packet: ChatPacket): void {
+        assert(packet.roomId === this.id, "Chat message meant for a different room! (" + this.id + " !== " + packet.roomId + ")", packet);
+
+        if (packet.isHistory) {
+            this.history.push(packet);
+            clearTimeout(this.historyTimer);
+            this.historyTimer = setTimeout(() => this.flushHistory(), Room.historyDelay);
+        } else {
+            //The backlog always comes before any live messages
+            this.flushHistory();
+        }
+    }
+
+    //Forgets all members and changes our state, used when we join, leave or
+    //lose the connection
+    //
+    //This is an internal method, don't call it directly.
+    reset(state: RoomState): void {
+        this.members = {};
+        this.error = undefined;
+        this.history = [];
+        clearTimeout(this.historyTimer);
+        this.setState(state);
+    }
+
+    //Emits any collected backlog as a "history" event, sorted by the time
+    //each message was sent, keeping the order they arrived in for messages
+    //sent at the same time
+    private flushHistory(): void {
+        clearTimeout(this.historyTimer);
+        if (this.history.length === 0) {
+            return;
+        }
+        var sorted = this.history.map(function(packet: ChatPacket, index: number) {
+            return { packet: packet, index: index, time: packet.time.getTime() };
+        }).sort(function(a, b) {
+            return a.time - b.time || a.index - b.index;
+        }).map(function(entry) {
+            return entry.packet;
+        });
+        this.history = [];
+        this.emit("history", this, sorted);
+    }
+
+    private setState(state: RoomState): void {
+        if (state !== this.state) {
+            var oldState = this.state;
+            this.state = state;
+            this.emit("state", this, oldState, state);
+        }
+    }
+
+    toString(): string {
+        return "Room " + this.id + " (" + RoomState[this.state] + ", " + this.memberCount + " members)";
+    }
+}
+applyMixins(Room, [EventEmitter]);
+
+//Our own status in a Room
+enum RoomState {
+    Left,       //We're not in the room
+    Joining,    //We've asked to join and are waiting for the answer
+    Joined,     //We're in the room
+    Error       //We couldn't join, see Room.error for why
+};
+
+exports.Room = Room;
+exports.RoomState = RoomState;
@@ -0,0 +1,246 @@
+var EventEmitter: any = require('events').EventEmitter;
+
+//SendQueue paces the packets a Client sends so that a busy script can't trip
+//MFC's flood protection and get itself muted.  Every packet sent through
+//Client.TxCmd goes through its client's queue, client.sendQueue.
+//
+//Packets wait in one of three lanes, see SendPriority.  Control packets, like
+//the login and keepalive, always go first and aren't limited.  Everything else
+//counts towards the global rate limit, and chat messages and PMs also towards
+//a limit for the room or user they're sent to.  A room that's over its limit
+//doesn't hold up messages to other rooms.
+//
+//When the connection can't keep up and asks us to wait for it to 'drain', nothing
+//more is written until it does.
+//
+//SendQueue emits these events, Client repeats "delayed" and "dropped" as
+//"CLIENT_SEND_DELAYED" and "CLIENT_SEND_DROPPED":
+//  "delayed"   - (packet) A packet couldn't be sent right away
+//  "sent"      - (packet, data, waited) A packet was written to the transport, as the
+//                given Buffer, after waiting in the queue for waited ms
+//  "dropped"   - (packet, reason) A packet was thrown away without being sent, see DropReason
+class SendQueue implements NodeJS.EventEmitter {
+    //Defaults for any SendQueueOptions field that isn't given
+    static defaultOptions: SendQueueOptions = {
+        globalLimit: { count: 10, interval: 1000 },
+        roomLimit: { count: 3, interval: 5000 },
+        maxQueued: 100
+    };
+
+    private options: SendQueueOptions;
+    private lanes: QueuedPacket[][] = [[], [], []]; //Indexed by SendPriority
+    private globalSent: number[] = [];               //When each recently sent packet went out
+    private roomSent: { [index: number]: number[] } = {}; //The same for each room, only while it has any
+    private transport: Transport;
+    private paused: boolean = false;
+    private timer: NodeJS.Timer;
+    private onDrain: () => void;
+
+    constructor(options: SendQueueOptions = {}) {
+        this.options = {};
+        for (var key in SendQueue.defaultOptions) {
+            (<any>this.options)[key] = (<any>options)[key] !== undefined ? (<any>options)[key] : (<any>SendQueue.defaultOptions)[key];
+        }
+        this.onDrain = () => {
+            this.paused = false;
+            this.pump();
+        };
+    }
+
+    //Instance EventEmitter methods, mixed in after this class declaration
+    addListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    on: (event: string, listener: Function) => NodeJS.EventEmitter;
+    once: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeAllListeners: (event?: string) => NodeJS.EventEmitter;
+    setMaxListeners: (n: number) => void;
+    listeners: (event: string) => Function[];
+    emit: (event: string, ...args: any[]) => boolean;
+
+    //How many packets are waiting to be sent
+    get length(): number {
+        return this.lanes.reduce(function(total: number, lane: QueuedPacket[]) { return total + lane.length; }, 0);
+    }
+
+    //Queues packet to be sent as soon as the rate limits allow
+    send(packet: Packet, priority: SendPriority): void {
+        if (this.transport === undefined) {
+            this.emit("dropped", packet, DropReason.Disconnected);
+            return;
+        }
+
+        this.lanes[priority].push({ packet: packet, priority: priority, queuedAt: Date.now() });
+        if (priority !== SendPriority.Control && this.lanes[SendPriority.Normal].length + this.lanes[SendPriority.Chat].length > this.options.maxQueued) {
+            //Drop the stalest chat message, or if there is none, whatever else is oldest
+            var lane = this.lanes[SendPriority.Chat].length > 0 ? this.lanes[SendPriority.Chat] : this.lanes[SendPriority.Normal];
+            this.emit("dropped", lane.shift().packet, DropReason.Overflow);
+        }
+
+        this.pump();
+        if (this.lanes[priority].some((item: QueuedPacket) => item.packet === packet)) {
+            this.emit("delayed", packet);
+        }
+    }
+
+    //Starts sending queued packets over the given transport
+    //
+    //This is an internal method, Client calls it for every new connection.
+    attach(transport: Transport): void {
+        this.detach();
+        this.transport = transport;
+        this.transport.on('drain', this.onDrain);
+    }
+
+    //Stops sending, dropping anything still queued, as the packets were
+    //meant for a session that's gone now
+    //
+    //This is an internal method, Client calls it when the connection closes.
+    detach(): void {
+        if (this.transport !== undefined) {
+            this.transport.removeListener('drain', this.onDrain);
+            this.transport = undefined;
+        }
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        this.paused = false;
+
+        var dropped = this.lanes.reduce(function(all: QueuedPacket[], lane: QueuedPacket[]) { return all.concat(lane); }, []);
+        this.lanes = [[], [], []];
+        dropped.forEach((item: QueuedPacket) => {
+            this.emit("dropped", item.packet, DropReason.Disconnected);
+        });
+    }
+
+    //Sends every packet the limits allow right now, and schedules the next
+    //attempt for when the limits will allow more
+    private pump(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+
+        while (this.transport !== undefined && !this.paused) {
+            var now = Date.now();
+            var next = this.nextPacket(now);
+            if (next.item === undefined) {
+                if (next.wait !== undefined) {
+                    this.timer = setTimeout(() => this.pump(), next.wait);
+                }
+                return;
+            }
+
+            this.lanes[next.item.priority].splice(this.lanes[next.item.priority].indexOf(next.item), 1);
+            if (next.item.priority !== SendPriority.Control && this.options.globalLimit) {
+                this.globalSent.push(now);
+            }
+            if (next.item.priority === SendPriority.Chat && this.options.roomLimit) {
+                this.forgetRooms(now);
+                var to = next.item.packet.nTo;
+                this.roomSent[to] = this.roomSent[to] || [];
+                this.roomSent[to].push(now);
+            }
+            var data = next.item.packet.toBuffer();
+            if (this.transport.write(data) === false) {
+                this.paused = true;
+            }
+            this.emit("sent", next.item.packet, data, now - next.item.queuedAt);
+        }
+    }
+
+    //Finds the packet to send next, or if none can be sent yet, how many ms
+    //until one can
+    private nextPacket(now: number): { item?: QueuedPacket; wait?: number } {
+        if (this.lanes[SendPriority.Control].length > 0) {
+            return { item: this.lanes[SendPriority.Control][0] };
+        }
+        if (this.lanes[SendPriority.Normal].length === 0 && this.lanes[SendPriority.Chat].length === 0) {
+            return {};
+        }
+
+        var globalWait = this.waitFor(this.globalSent, this.options.globalLimit, now);
+        if (globalWait > 0) {
+            return { wait: globalWait };
+        }
+        if (this.lanes[SendPriority.Normal].length > 0) {
+            return { item: this.lanes[SendPriority.Normal][0] };
+        }
+
+        //The oldest chat message whose room is under its limit
+        var wait: number;
+        var checked: { [index: number]: boolean } = {};
+        var chat = this.lanes[SendPriority.Chat];
+        for (var i = 0; i < chat.length; i++) {
+            var to = chat[i].packet.nTo;
+            if (checked[to]) {
+                continue;
+            }
+            checked[to] = true;
+            var roomWait = this.waitFor(this.roomSent[to] || [], this.options.roomLimit, now);
+            if (roomWait === 0) {
+                return { item: chat[i] };
+            }
+            wait = wait === undefined ? roomWait : Math.min(wait, roomWait);
+        }
+        return { wait: wait };
+    }
+
+    //Forgets the rooms whose recent messages no longer count towards their
+    //limit, so chatting in ever more rooms doesn't keep them all around
+    private forgetRooms(now: number): void {
+        for (var to in this.roomSent) {
+            if (this.roomSent.hasOwnProperty(to)) {
+                this.waitFor(this.roomSent[to], this.options.roomLimit, now);
+                if (this.roomSent[to].length === 0) {
+                    delete this.roomSent[to];
+                }
+            }
+        }
+    }
+
+    //How many ms until another packet can be sent under limit, given when the
+    //recent ones were sent.  Also forgets the times that no longer matter.
+    private waitFor(sent: number[], limit: RateLimit, now: number): number {
+        if (!limit) {
+            return 0;
+        }
+        while (sent.length > 0 && sent[0] <= now - limit.interval) {
+            sent.shift();
+        }
+        return sent.length < limit.count ? 0 : sent[0] + limit.interval - now;
+    }
+}
+applyMixins(SendQueue, [EventEmitter]);
+
+//The lanes of a SendQueue, in the order they're sent
+enum SendPriority {
+    Control,    //Login, keepalive and room joins, never rate limited
+    Normal,     //Queries and anything else that isn't chat
+    Chat        //Chat messages and PMs, also limited per room or recipient
+};
+//Why a SendQueue threw a packet away
+enum DropReason {
+    Overflow,       //Too many packets were queued, see SendQueueOptions.maxQueued
+    Disconnected    //The connection was lost, or never there, before it could be sent
+};
+interface SendQueueOptions {
+    //How many packets, other than Control ones, may be sent per interval ms.
+    //null for no limit.
+    globalLimit?: RateLimit;
+    //How many chat messages may be sent to any one room, or PMs to any one
+    //user, per interval ms.  null for no limit.
+    roomLimit?: RateLimit;
+    //How many Normal and Chat packets may wait before the oldest chat message
+    //is dropped
+    maxQueued?: number;
+}
+interface RateLimit {
+    count: number;
+    interval: number;
+}
+interface QueuedPacket {
+    packet: Packet;
+    priority: SendPriority;
+    queuedAt: number;   //When send() was called, to tell how long it waited
+}
+
+exports.SendQueue = SendQueue;
+exports.SendPriority = SendPriority;
+exports.DropReason = DropReason;
@@ -0,0 +1,70 @@
+//Tip represents a single tip seen in a chat room, decoded from an FCTYPE.TOKENINC
+//packet.  Client emits one of these as a "tip" event for every TOKENINC it
+//receives, and the receiving Model (along with the client's ModelRegistry,
+//for all models) emits it as a "tip" event too:
+//
+//  client.on("tip", function(tip) { ... });
+//  client.models.getModel(id).on("tip", function(tip) { ... });
+class Tip {
+    //Who sent the tip.  Both are undefined for anonymous tips, rather than
+    //crediting a user named "anonymous".
+    senderId: number;
+    senderName: string;
+    //Who received the tip
+    modelId: number;
+    modelName: string;
+    model: ExpandedModel;
+    //The number of tokens tipped.  Check options.hiddenAmount, when set the
+    //model chose not to show the real amount to the room.
+    tokens: number;
+    //The tip message, with emotes decoded, if there is one
+    message: string;
+    //When the tip happened, according to the server
+    time: Date;
+    //The raw TKOPT bit mask, and its decoded form
+    flags: number;
+    options: TipOptions;
+    packet: TipPacket;
+
+    constructor(packet: TipPacket) {
+        this.packet = packet;
+        this.flags = packet.flags || 0;
+        this.options = {
+            anonymous: (this.flags & TKOPT.TIP_ANON) !== 0 || packet.senderName === "anonymous",
+            hiddenAmount: (this.flags & TKOPT.TIP_HIDDEN_AMT) !== 0,
+            public: (this.flags & TKOPT.TIP_PUBLIC) !== 0,
+            publicMessage: (this.flags & TKOPT.TIP_PUBLICMSG) !== 0,
+            offline: (this.flags & TKOPT.TIP_OFFLINE) !== 0,
+            fromRoom: (this.flags & TKOPT.TIP_FROMROOM) !== 0,
+            hasMessage: (this.flags & TKOPT.TIP_MSG) !== 0
+        };
+
+        if (!this.options.anonymous) {
+            this.senderId = packet.senderId;
+            this.senderName = packet.senderName;
+        }
+        this.modelId = packet.modelId;
+        this.modelName = packet.modelName;
+        this.model = packet.client !== undefined ? packet.client.models.getModel(this.modelId) : Model.getModel(this.modelId);
+        this.tokens = packet.tokens;
+        this.message = packet.text;
+        this.time = packet.sMessage && packet.sMessage.stamp !== undefined ? new Date(packet.sMessage.stamp * 1000) : new Date();
+    }
+
+    toString(): string {
+        return (this.options.anonymous ? "Someone" : this.senderName) + " has tipped " + this.modelName + " " + (this.options.hiddenAmount ? "some" : this.tokens) + " tokens" + (this.message ? (": '" + this.message + "'") : ".");
+    }
+}
+
+//The TKOPT flags of a tip as booleans
+interface TipOptions {
+    anonymous: boolean;     //The sender's name is hidden
+    hiddenAmount: boolean;  //The amount is hidden from the room
+    public: boolean;        //The tip was announced in the room
+    publicMessage: boolean; //The tip message was shown in the room
+    offline: boolean;       //The model was offline when tipped
+    fromRoom: boolean;      //The tip was sent from the model's room
+    hasMessage: boolean;    //The tip came with a message
+}
+
+exports.Tip = Tip;
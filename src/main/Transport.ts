@@ -0,0 +1,263 @@
+var EventEmitter: any = require('events').EventEmitter;
+
+//Transports carry a Client's packets to and from a chat server.  MFC accepts
+//the same packets either over a plain TCP connection, like its old Flash
+//client, or over WebSockets, like its HTML5 client, which also gets through
+//networks that only allow web traffic.  Choose one with the transport option
+//of Client.
+//
+//Whatever goes over the wire, a Transport reads and writes a stream of bytes
+//in MFC's binary packet framing, as produced by Packet.toBuffer().  So Client
+//decodes every transport's data the same way, giving the same events and
+//Packets, and captures of any transport replay the same too.
+//
+//Like a net.Socket, a Transport emits these events:
+//  "connect"   - The connection is open, packets can be written
+//  "data"      - (data) Received data, as a Buffer of binary framed packets
+//  "drain"     - write() returned false before, and writing may continue now
+//  "error"     - (err) Something went wrong, "close" always follows
+//  "protocolError" - (err) The server sent something the transport itself
+//                  can't decode, the connection is dropped and "close" follows
+//  "close"     - The connection is closed
+
+//The TCP connection on port 8100, the original and default transport
+class TcpTransport implements Transport {
+    type: TransportType = TransportType.Tcp;
+    defaultPort: number = 8100;
+
+    private socket: any;
+
+    //Instance EventEmitter methods, mixed in after this class declaration
+    addListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    on: (event: string, listener: Function) => NodeJS.EventEmitter;
+    once: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeAllListeners: (event?: string) => NodeJS.EventEmitter;
+    setMaxListeners: (n: number) => void;
+    listeners: (event: string) => Function[];
+    emit: (event: string, ...args: any[]) => boolean;
+
+    connect(host: string, port: number): void {
+        var net = require('net');
+        this.socket = net.connect(port, host, () => this.emit("connect"));
+        ["data", "drain", "error", "close"].forEach((event: string) => {
+            this.socket.on(event, (arg?: any) => this.emit(event, arg));
+        });
+    }
+
+    write(data: Buffer): boolean {
+        return this.socket.write(data);
+    }
+
+    end(): void {
+        this.socket.end();
+    }
+
+    destroy(): void {
+        this.socket.destroy();
+    }
+}
+applyMixins(TcpTransport, [EventEmitter]);
+
+//MFC's WebSocket protocol, on port 8080.  Packets are sent as text, one per
+//WebSocket message, each ending in "\n\0":
+//
+//  FCType nFrom nTo nArg1 nArg2 sMessage
+//
+//The server sends its packets the same way, except that sMessage is URL
+//encoded and, instead of the terminator, each is prefixed by its length as 6
+//decimal digits.  There may be several of those in one WebSocket message, and
+//one may be split across messages.  Every connection starts with us saying
+//"hello fcserver".
+//
+//Received packets are translated to the binary framing, and the binary
+//framed packets written are translated to text, so to Client, and captures,
+//this looks no different from TCP.  A server message that can't be parsed is
+//a protocol error like a corrupt TCP stream, reported as "protocolError", and
+//drops the connection.
+class WebSocketTransport implements Transport {
+    type: TransportType = TransportType.WebSocket;
+    defaultPort: number = 8080;
+
+    //The path of the chat service on MFC's WebSocket servers
+    static path: string = "/fcsl";
+
+    private socket: any;
+    private open: boolean = false;
+    private pending: string[] = [];     //Messages written before the connection opened
+    private outgoing: PacketDecoder;    //Splits what's written into packets
+    private incoming: string = "";      //Received text not yet parsed
+    private maxPayloadSize: number;
+
+    constructor(maxPayloadSize: number = PacketDecoder.defaultMaxPayloadSize) {
+        this.maxPayloadSize = maxPayloadSize;
+        this.outgoing = new PacketDecoder(undefined, maxPayloadSize);
+    }
+
+    //Instance EventEmitter methods, mixed in after this class declaration
+    addListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    on: (event: string, listener: Function) => NodeJS.EventEmitter;
+    once: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeListener: (event: string, listener: Function) => NodeJS.EventEmitter;
+    removeAllListeners: (event?: string) => NodeJS.EventEmitter;
+    setMaxListeners: (n: number) => void;
+    listeners: (event: string) => Function[];
+    emit: (event: string, ...args: any[]) => boolean;
+
+    connect(host: string, port: number): void {
+        var WebSocket = require('ws');
+        this.socket = new WebSocket("ws://" + host + ":" + port + WebSocketTransport.path);
+        this.socket.on('open', () => {
+            this.open = true;
+            this.send("hello fcserver\n\0");
+            this.pending.forEach((text: string) => this.send(text));
+            this.pending = [];
+            this.emit("connect");
+        });
+        this.socket.on('message', (data: any) => this.received(String(data)));
+        this.socket.on('error', (err: Error) => this.emit("error", err));
+        this.socket.on('close', () => {
+            this.open = false;
+            this.emit("close");
+        });
+    }
+
+    //The WebSocket buffers everything itself, so this never asks to wait
+    write(data: Buffer): boolean {
+        this.outgoing.write(data).forEach((packet: Packet) => {
+            var text = WebSocketTransport.toText(packet) + "\n\0";
+            if (this.open) {
+                this.send(text);
+            } else {
+                this.pending.push(text);
+            }
+        });
+        return true;
+    }
+
+    end(): void {
+        this.socket.close();
+    }
+
+    destroy(): void {
+        this.socket.terminate();
+    }
+
+    //Encodes packet as text, without a length prefix or terminator.  With
+    //uriEncoded, sMessage is URL encoded, the way the server sends it.
+    static toText(packet: Packet, uriEncoded: boolean = false): string {
+        var text = [packet.FCType, packet.nFrom, packet.nTo, packet.nArg1, packet.nArg2].join(" ");
+        if (packet.sMessage !== undefined && packet.sMessage !== null) {
+            var payload = typeof packet.sMessage === 'string' ? <string>packet.sMessage : JSON.stringify(packet.sMessage);
+            text += " " + (uriEncoded ? encodeURIComponent(payload) : payload);
+        }
+        return text;
+    }
+
+    //Decodes a packet from text, without a length prefix, returning
+    //undefined if it isn't one.  A trailing "\n\0" is ignored.  With
+    //uriEncoded, sMessage is URL decoded first, the way the server sends it.
+    static fromText(text: string, uriEncoded: boolean = false, client?: Client): Packet {
+        var match = /^(\d+) (-?\d+) (-?\d+) (-?\d+) (-?\d+)(?: ([\s\S]*?))?\n?\0?$/.exec(text);
+        if (match === null) {
+            return undefined;
+        }
+
+        var payload = match[6] !== undefined ? match[6] : "";
+        if (uriEncoded) {
+            try {
+                payload = decodeURIComponent(payload);
+            } catch (e) {
+                //Leave anything that wasn't actually encoded as it is
+            }
+        }
+        var sMessage: AnyMessage;
+        if (payload.length > 0) {
+            try {
+                sMessage = JSON.parse(payload);
+            } catch (e) {
+                sMessage = payload;
+            }
+        }
+        return Packet.create(client, parseInt(match[1]), parseInt(match[2]), parseInt(match[3]), parseInt(match[4]), parseInt(match[5]), payload.length, sMessage);
+    }
+
+    private send(text: string): void {
+        //A send after the connection closed fails, and "close" is already on its way
+        this.socket.send(text, function(): void { return undefined; });
+    }
+
+    //Parses every complete packet in the received text so far and emits them
+    //as binary framed data
+    private received(text: string): void {
+        this.incoming += text;
+        var data: Buffer[] = [];
+        var error: string;
+
+        while (this.incoming.length >= 6) {
+            var prefix = this.incoming.substr(0, 6);
+            var length = parseInt(prefix, 10);
+            if (!/^\d{6}$/.test(prefix) || length > this.maxPayloadSize) {
+                error = "Invalid length prefix '" + prefix + "'";
+                break;
+            }
+            if (this.incoming.length < 6 + length) {
+                break;
+            }
+            var packet = WebSocketTransport.fromText(this.incoming.substr(6, length), true);
+            if (packet === undefined) {
+                error = "Invalid packet '" + this.incoming.substr(6, Math.min(length, 64)) + "'";
+                break;
+            }
+            this.incoming = this.incoming.substr(6 + length);
+            data.push(packet.toBuffer());
+        }
+
+        if (data.length > 0) {
+            this.emit("data", Buffer.concat(data));
+        }
+        if (error !== undefined) {
+            this.incoming = "";
+            this.emit("protocolError", new Error(error));
+            this.destroy();
+        }
+    }
+}
+applyMixins(WebSocketTransport, [EventEmitter]);
+
+//Creates a new, not yet connected, transport of the given type
+function createTransport(type: TransportType, maxPayloadSize?: number): Transport {
+    switch (type) {
+        case TransportType.WebSocket:
+            return new WebSocketTransport(maxPayloadSize);
+        default:
+            return new TcpTransport();
+    }
+}
+
+//The ways of connecting to MFC's chat servers
+enum TransportType {
+    Tcp,        //Port 8100 on one of ServerConfig.chat_servers
+    WebSocket   //Port 8080 on one of ServerConfig.websocket_servers
+};
+interface Transport extends NodeJS.EventEmitter {
+    //Which of MFC's lists of chat servers to connect to one of
+    type: TransportType;
+    //The port to connect to when ClientOptions.port isn't given
+    defaultPort: number;
+    //Opens the connection, "connect" is emitted once it's open
+    connect(host: string, port: number): void;
+    //Sends data, which holds whole binary framed packets.  Returns false if
+    //no more should be written until "drain" is emitted.
+    write(data: Buffer): boolean;
+    //Closes the connection once everything written has been sent
+    end(): void;
+    //Closes the connection at once
+    destroy(): void;
+}
+//Creates a new, not yet connected, Transport for each connection
+type TransportFactory = () => Transport;
+
+exports.TcpTransport = TcpTransport;
+exports.WebSocketTransport = WebSocketTransport;
+exports.TransportType = TransportType;
@@ -1,4 +1,7 @@
 //Helper logging function that timestamps each message and optionally outputs to a file as well
+//
+//Client logs through a Logger instead, see Logger.ts, which also has a FileLogger
+//writing asynchronously to a file per day.
 function log(msg: string, fileRoot?: string, consoleFormatter?: (msg: string) => string): void {
     assert(msg !== undefined, "Trying to print undefined.  This usually indicates a bug upstream from the log function.");
 
@@ -23,7 +26,7 @@ function log(msg: string, fileRoot?: string, consoleFormatter?: (msg: string) =>
     }
 
     if (fileRoot !== undefined) {
-        var fd = fs.openSync(fileRoot + ".txt", "a"); //@TODO - Could create separate logs per date, or could just slam everything into one file...not sure what's best, but one file is easiest for the moment
+        var fd = fs.openSync(fileRoot + ".txt", "a"); //For separate logs per date, use a FileLogger
         fs.writeSync(fd, taggedMsg + "\r\n");
         fs.closeSync(fd);
     }
@@ -36,6 +36,7 @@ interface BaseMessage {
     nm?: string;    //User name for chat
     vs?: number;    //State (hmm, does "VS" stand for "video state"?  Maybe, that might make sense.)
     msg?: string;   //The text of any chat message or PM if this is a CMESG or PMESG FCType
+    ts?: number;    //When a chat message was originally sent, in seconds, given for the backlog of messages sent with FCCHAN.HISTORY
     tokens?: number; //@TODO @BUGBUG is this really there????  Check packetlog....
 }
 
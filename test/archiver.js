@@ -0,0 +1,126 @@
+"use strict";
+var assert = require("assert");
+var fs = require("fs");
+var os = require("os");
+var path = require("path");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("chat archiver", function() {
+    var server, client, other, directory, archiver;
+
+    beforeEach(function() {
+        directory = path.join(os.tmpdir(), "mfcauto-archive-" + process.pid + "-" + Date.now());
+        return helpers.startServer().then(function(s) {
+            server = s;
+            server.addAccount({ name: "Tester", password: "secret", uid: 4242 });
+            server.addAccount({ name: "Other", password: "secret", uid: 4343 });
+            client = helpers.createClient(server, "Tester", "secret");
+            other = helpers.createClient(server, "Other", "secret");
+            archiver = new mfc.ChatArchiver(client, { directory: directory, rooms: [3000], flushOnExit: false });
+            return Promise.all([client.connect(), other.connect()]);
+        });
+    });
+    afterEach(function() {
+        client.disconnect();
+        other.disconnect();
+        fs.readdirSync(directory).forEach(function(file) {
+            fs.unlinkSync(path.join(directory, file));
+        });
+        fs.rmdirSync(directory);
+        return server.close();
+    });
+
+    //Sends chat from other, resolving once client has received it too
+    function chat(id, msg) {
+        var received = helpers.waitFor(client, "CMESG");
+        return Promise.all([other.sendChat(id, msg), received]);
+    }
+
+    //The archive file of the given key, "pm" or a room id, for today
+    function archiveFile(key, extension) {
+        var d = new Date();
+        var pad = function(n) { return n < 10 ? "0" + n : "" + n; };
+        return path.join(directory, key + "-" + d.getFullYear() + "-" + pad(d.getMonth() + 1) + "-" + pad(d.getDate()) + extension);
+    }
+
+    //Closes the archiver and reads back the records of the given file, "pm"
+    //or a room id, for today
+    function readArchive(key, extension) {
+        return new Promise(function(resolve) {
+            archiver.close(resolve);
+        }).then(function() {
+            var lines = fs.readFileSync(archiveFile(key, extension), "utf8").trim().split("\n");
+            return extension === ".jsonl" ? lines.map(function(line) { return JSON.parse(line); }) : lines;
+        });
+    }
+
+    it("archives chat and tips in the chosen rooms", function() {
+        return Promise.all([client.joinRoom(3000), other.joinRoom(3000), other.joinRoom(5000)]).then(function() {
+            return Promise.all([chat(3000, "hello"), other.sendChat(5000, "elsewhere")]);
+        }).then(function() {
+            var tipped = helpers.waitFor(client, "tip");
+            server.sendTip({ senderId: 4343, senderName: "Other", modelId: 3000, tokens: 25, message: "for you" });
+            return tipped;
+        }).then(function() {
+            return Promise.all([readArchive(100003000, ".jsonl"), readArchive(100003000, ".txt")]);
+        }).then(function(results) {
+            var records = results[0];
+            assert.strictEqual(records.length, 2);
+            assert.strictEqual(records[0].type, "chat");
+            assert.strictEqual(records[0].room, 100003000);
+            assert.strictEqual(records[0].uid, 4343);
+            assert.strictEqual(records[0].name, "Other");
+            assert.strictEqual(records[0].message, "hello");
+            assert.strictEqual(records[1].type, "tip");
+            assert.strictEqual(records[1].tokens, 25);
+            assert.ok(/^\[\d\d:\d\d:\d\d\] Other: hello$/.test(results[1][0]));
+            assert.ok(/Other tipped 25 tokens: for you$/.test(results[1][1]));
+            assert.ok(!fs.existsSync(archiveFile(100005000, ".jsonl")));
+        });
+    });
+
+    it("archives private messages", function() {
+        return other.sendPM(4242, "psst").then(function() {
+            return readArchive("pm", ".jsonl");
+        }).then(function(records) {
+            assert.strictEqual(records.length, 1);
+            assert.strictEqual(records[0].type, "pm");
+            assert.strictEqual(records[0].to, 4242);
+            assert.strictEqual(records[0].message, "psst");
+        });
+    });
+
+    it("doesn't archive the history backlog again", function() {
+        return other.joinRoom(3000).then(function() {
+            return other.sendChat(3000, "before");
+        }).then(function() {
+            return client.joinRoom(3000, { history: true });
+        }).then(function() {
+            //The backlog arrives before this, and this ends it
+            var history = helpers.waitFor(client.getRoom(3000), "history");
+            return Promise.all([chat(3000, "after"), history]);
+        }).then(function(results) {
+            assert.strictEqual(results[1][1].length, 1);
+            return readArchive(100003000, ".jsonl");
+        }).then(function(records) {
+            assert.deepEqual(records.map(function(record) { return record.message; }), ["after"]);
+        });
+    });
+
+    it("writes lines waiting behind an unfinished write on exit", function() {
+        function receive(msg) {
+            client.emit("CMESG", mfc.Packet.create(client, mfc.FCTYPE.CMESG, 0, 100003000, 0, 0, 0, { uid: 4343, nm: "Other", msg: msg }));
+        }
+        receive("one");
+        archiver.flush();
+        receive("two");
+        archiver.flush();
+        //What the exit handler does, while "one" is still being written
+        archiver.flushSync();
+        assert.ok(/"two"/.test(fs.readFileSync(archiveFile(100003000, ".jsonl"), "utf8")));
+        return readArchive(100003000, ".jsonl").then(function(records) {
+            assert.deepEqual(records.map(function(record) { return record.message; }).sort(), ["one", "two"]);
+        });
+    });
+});
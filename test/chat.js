@@ -0,0 +1,173 @@
+"use strict";
+var assert = require("assert");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("rooms and chat", function() {
+    var server, client, other;
+    var roomId = 100003000;
+
+    beforeEach(function() {
+        return helpers.startServer().then(function(s) {
+            server = s;
+            server.addAccount({ name: "Tester", password: "secret", uid: 4242 });
+            server.addAccount({ name: "Other", password: "secret", uid: 4343 });
+            server.addUser({ sid: 500, uid: 3000, nm: "AModel", lv: mfc.FCLEVEL.MODEL, vs: mfc.STATE.FreeChat });
+            client = helpers.createClient(server, "Tester", "secret");
+            other = helpers.createClient(server, "Other", "secret");
+            return Promise.all([client.connect(), other.connect()]);
+        });
+    });
+    afterEach(function() {
+        client.disconnect();
+        other.disconnect();
+        return server.close();
+    });
+
+    it("joins a room and tracks its members", function() {
+        return client.joinRoom(3000).then(function() {
+            var room = client.getRoom(3000);
+            var joined = helpers.waitFor(room, "join");
+            assert.strictEqual(room.state, mfc.RoomState.Joined);
+            assert.ok(room.getMember(3000) !== undefined);
+            assert.ok(room.getMember(4242) !== undefined);
+            return other.joinRoom(3000).then(function() {
+                return joined;
+            });
+        }).then(function(args) {
+            assert.strictEqual(args[1].uid, 4343);
+        });
+    });
+
+    it("rejects a refused join with the server's error", function() {
+        server.getRoom(roomId).denyJoin = mfc.FCCHAN.ERR_NOTALLOWED;
+        return helpers.expectRejection(client.joinRoom(3000)).then(function(err) {
+            assert.strictEqual(err.code, mfc.FCCHAN.ERR_NOTALLOWED);
+            assert.strictEqual(client.getRoom(3000).state, mfc.RoomState.Error);
+        });
+    });
+
+    it("confirms chat messages once they're echoed", function() {
+        return Promise.all([client.joinRoom(3000), other.joinRoom(3000)]).then(function() {
+            var heard = helpers.waitFor(other, "CMESG");
+            return Promise.all([client.sendChat(3000, "hello there"), heard]);
+        }).then(function(results) {
+            assert.strictEqual(results[0].pMessage, "hello there");
+            assert.strictEqual(results[1][0].sMessage.nm, "Tester");
+        });
+    });
+
+    it("rejects chat the room refuses", function() {
+        server.getRoom(roomId).rejectContent = /forbidden/;
+        return client.joinRoom(3000).then(function() {
+            return helpers.expectRejection(client.sendChat(3000, "something forbidden"));
+        }).then(function(err) {
+            assert.strictEqual(err.code, mfc.FCCHAN.ERR_CONTENT);
+        });
+    });
+
+    it("rejects guest chat in guest muted rooms", function() {
+        var guest = helpers.createClient(server, "guest", "guest");
+        server.getRoom(roomId).guestMute = true;
+        return guest.connect().then(function() {
+            return guest.joinRoom(3000);
+        }).then(function() {
+            return helpers.expectRejection(guest.sendChat(3000, "hi"));
+        }).then(function(err) {
+            guest.disconnect();
+            assert.strictEqual(err.code, mfc.FCCHAN.ERR_GUESTMUTE);
+        });
+    });
+
+    it("rejects joins and lookups made without a connection right away", function() {
+        var unconnected = helpers.createClient(server, "Tester", "secret");
+        var started = Date.now();
+        return Promise.all([
+            helpers.expectRejection(unconnected.joinRoom(3000)),
+            helpers.expectRejection(unconnected.queryUser("AModel"))
+        ]).then(function(errors) {
+            errors.forEach(function(err) {
+                assert.ok(/dropped by the send queue \(Disconnected\)/.test(err.message), err.message);
+            });
+            assert.ok(Date.now() - started < 500);
+        });
+    });
+
+    it("isn't confused by backlog lines arriving while chat is sent", function() {
+        server.on("packet", function(session, packet) {
+            if (packet.FCType === mfc.FCTYPE.CMESG) {
+                //FCCHAN.OLDMSG is also FCCHAN.ERR_GUESTMUTE
+                session.send(mfc.FCTYPE.CMESG, roomId, 0, mfc.FCCHAN.OLDMSG, { uid: 4343, nm: "Other", msg: "earlier" }, 4343);
+            }
+        });
+        return client.joinRoom(3000).then(function() {
+            return client.sendChat(3000, "hello there");
+        }).then(function(packet) {
+            assert.strictEqual(packet.pMessage, "hello there");
+        });
+    });
+
+    it("rejects chat sent while disconnected right away", function() {
+        client.disconnect();
+        var started = Date.now();
+        return helpers.expectRejection(client.sendChat(3000, "anyone?")).then(function(err) {
+            assert.ok(/Disconnected/.test(err.message), err.message);
+            assert.ok(Date.now() - started < 500);
+        });
+    });
+
+    it("doesn't take guest mute errors for backlog", function() {
+        var historyDelay = mfc.Room.historyDelay;
+        mfc.Room.historyDelay = 10;
+        var guest = helpers.createClient(server, "guest", "guest");
+        var history = [];
+        server.getRoom(roomId).guestMute = true;
+        return guest.connect().then(function() {
+            return guest.joinRoom(3000);
+        }).then(function() {
+            guest.getRoom(3000).on("history", function(room, packets) { history = history.concat(packets); });
+            return helpers.expectRejection(guest.sendChat(3000, "hi"));
+        }).then(function() {
+            return new Promise(function(resolve) { setTimeout(resolve, 50); });
+        }).then(function() {
+            guest.disconnect();
+            mfc.Room.historyDelay = historyDelay;
+            assert.deepEqual(history, []);
+        });
+    });
+
+    it("sends the backlog to joins that ask for history", function() {
+        var historyDelay = mfc.Room.historyDelay;
+        mfc.Room.historyDelay = 100;
+        return client.joinRoom(3000).then(function() {
+            return client.sendChat(3000, "first");
+        }).then(function() {
+            return client.sendChat(3000, "second");
+        }).then(function() {
+            var room = other.getRoom(3000);
+            var history = helpers.waitFor(room, "history");
+            return other.joinRoom(3000, { history: true }).then(function() {
+                return history;
+            });
+        }).then(function(args) {
+            mfc.Room.historyDelay = historyDelay;
+            var messages = args[1].map(function(packet) { return packet.pMessage; });
+            assert.deepEqual(messages, ["first", "second"]);
+            assert.ok(args[1].every(function(packet) { return packet.isHistory; }));
+        });
+    });
+
+    it("delivers private messages", function() {
+        var received = helpers.waitFor(other, "PMESG");
+        return Promise.all([client.sendPM(4343, "psst"), received]).then(function(results) {
+            assert.strictEqual(results[0].pMessage, "psst");
+            assert.strictEqual(results[1][0].sMessage.uid, 4242);
+        });
+    });
+
+    it("rejects private messages to users who aren't online", function() {
+        return helpers.expectRejection(client.sendPM(9999, "anyone?")).then(function(err) {
+            assert.strictEqual(err.code, mfc.FCRESPONSE.NOACCESS);
+        });
+    });
+});
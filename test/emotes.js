@@ -0,0 +1,115 @@
+"use strict";
+var assert = require("assert");
+var os = require("os");
+var path = require("path");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+var table = { mhappy: "2c9d2da6.gif", mhap: "0a1b2c3d.gif", wave: "5e6f7a8b.gif" };
+
+//What a client receiving msg in a room would make of it
+function received(msg) {
+    return new mfc.Packet(undefined, mfc.FCTYPE.CMESG, 0, 100003000, 0, 0, 0, { msg: msg }).pMessage;
+}
+
+describe("emote encoding", function() {
+    it("encodes emotes the way received messages decode them", function() {
+        var encoder = new mfc.EmoteEncoder(table);
+        var used = [];
+        var encoded = encoder.encode("I am happy :mhappy and :wave", used);
+        assert.strictEqual(encoded, "I am happy #~ue,2c9d2da6.gif,mhappy~# and #~ue,5e6f7a8b.gif,wave~#");
+        assert.deepStrictEqual(used, [
+            { txt: ":mhappy", url: "2c9d2da6.gif", code: "mhappy" },
+            { txt: ":wave", url: "5e6f7a8b.gif", code: "wave" }
+        ]);
+        assert.strictEqual(received(encoded), "I am happy :mhappy and :wave");
+    });
+
+    it("matches the longest known code before trailing punctuation", function() {
+        var encoder = new mfc.EmoteEncoder(table);
+        assert.strictEqual(encoder.encode(":mhappy!"), "#~ue,2c9d2da6.gif,mhappy~#!");
+        assert.strictEqual(encoder.encode(":mhapx"), "#~ue,0a1b2c3d.gif,mhap~#x");
+    });
+
+    it("matches codes without regard to case", function() {
+        var encoder = new mfc.EmoteEncoder({ MHappy: "2c9d2da6.gif" });
+        assert.strictEqual(encoder.encode(":MHAPPY"), "#~ue,2c9d2da6.gif,MHAPPY~#");
+        assert.strictEqual(encoder.encode(":mhappy"), "#~ue,2c9d2da6.gif,mhappy~#");
+    });
+
+    it("leaves unknown codes as they are", function() {
+        var encoder = new mfc.EmoteEncoder(table);
+        var used = [];
+        assert.strictEqual(encoder.encode("at 10:30 :nosuchemote", used), "at 10:30 :nosuchemote");
+        assert.deepStrictEqual(used, []);
+    });
+
+    it("reports emote files it can't load", function() {
+        var missing = path.join(os.tmpdir(), "mfcauto-no-such-emotes-" + process.pid + ".json");
+        return new Promise(function(resolve) {
+            mfc.EmoteEncoder.fromFile(missing, function(err, encoder) {
+                resolve([err, encoder]);
+            });
+        }).then(function(results) {
+            assert.ok(results[0] instanceof Error);
+            assert.strictEqual(results[1], undefined);
+        });
+    });
+
+    describe("in sent messages", function() {
+        var server, client, other;
+
+        beforeEach(function() {
+            return helpers.startServer().then(function(s) {
+                server = s;
+                server.addAccount({ name: "Tester", password: "secret", uid: 4242 });
+                server.addAccount({ name: "Other", password: "secret", uid: 4343 });
+                server.addUser({ sid: 500, uid: 3000, nm: "AModel", lv: mfc.FCLEVEL.MODEL, vs: mfc.STATE.FreeChat });
+            });
+        });
+        afterEach(function() {
+            client.disconnect();
+            other.disconnect();
+            return server.close();
+        });
+
+        //Joins both clients to the model's room, then has client send msg
+        //formatted, resolving with what other hears
+        function sendFormatted(msg) {
+            other = helpers.createClient(server, "Other", "secret");
+            return Promise.all([client.connect(), other.connect()]).then(function() {
+                return Promise.all([client.joinRoom(3000), other.joinRoom(3000)]);
+            }).then(function() {
+                var heard = helpers.waitFor(other, "CMESG");
+                return Promise.all([client.sendChat(3000, msg, true), heard]);
+            }).then(function(results) {
+                return results[1][0];
+            });
+        }
+
+        it("encodes emotes when asked to format", function() {
+            client = helpers.createClient(server, "Tester", "secret", { emotes: table });
+            return sendFormatted("hi :wave!").then(function(packet) {
+                assert.strictEqual(unescape(packet.sMessage.msg), "hi #~ue,5e6f7a8b.gif,wave~#!");
+                assert.strictEqual(packet.pMessage, "hi :wave!");
+            });
+        });
+
+        it("sends messages unencoded when the emote file can't be loaded", function() {
+            var missing = path.join(os.tmpdir(), "mfcauto-no-such-emotes-" + process.pid + ".json");
+            var warnings = [];
+            var logger = {
+                log: function(level, msg) {
+                    if (level === mfc.LogLevel.Warn) {
+                        warnings.push(msg);
+                    }
+                }
+            };
+            client = helpers.createClient(server, "Tester", "secret", { emotes: missing, logger: logger });
+            return sendFormatted("hi :wave").then(function(packet) {
+                assert.strictEqual(unescape(packet.sMessage.msg), "hi :wave");
+                assert.ok(warnings.some(function(msg) { return /Unable to load emotes/.test(msg); }));
+            });
+        });
+    });
+});
@@ -0,0 +1,54 @@
+"use strict";
+var assert = require("assert");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("flags", function() {
+    it("decodes and encodes bit masks", function() {
+        var mask = mfc.FCOPT.HDVIDEO | mfc.FCOPT.GUESTMUTE;
+        var opts = mfc.decodeFlags(mask, mfc.MODEL_OPTIONS);
+        assert.strictEqual(opts.hdVideo, true);
+        assert.strictEqual(opts.guestMute, true);
+        assert.strictEqual(opts.basicMute, false);
+        assert.strictEqual(mfc.encodeFlags(opts, mfc.MODEL_OPTIONS), mask);
+        assert.strictEqual(mfc.decodeFlags(undefined, mfc.MODEL_OPTIONS).hdVideo, false);
+    });
+
+    describe("of models", function() {
+        var server, client;
+
+        beforeEach(function() {
+            return helpers.startServer().then(function(s) {
+                server = s;
+                server.addUser({ sid: 500, uid: 3000, nm: "AModel", lv: mfc.FCLEVEL.MODEL, vs: mfc.STATE.FreeChat, m: { flags: mfc.FCOPT.HDVIDEO } });
+                client = helpers.createClient(server, "guest", "guest");
+            });
+        });
+        afterEach(function() {
+            client.disconnect();
+            return server.close();
+        });
+
+        it("fire events only for flags that flip", function() {
+            var model = client.models.getModel(3000);
+            var events = [];
+            model.on("opts", function() { events.push("opts"); });
+            Object.keys(mfc.MODEL_OPTIONS).forEach(function(name) {
+                model.on("opts." + name, function(m, before, after) { events.push(name + " " + before + " " + after); });
+            });
+            var seen = helpers.waitFor(model, "flags");
+            return client.connect().then(function() {
+                return seen;
+            }).then(function() {
+                assert.strictEqual(model.opts.hdVideo, true);
+                assert.deepEqual(events, []);
+                var changed = helpers.waitFor(model, "flags");
+                server.sendSessionState({ uid: 3000, m: { flags: mfc.FCOPT.HDVIDEO | mfc.FCOPT.GUESTMUTE } });
+                return changed;
+            }).then(function() {
+                assert.strictEqual(model.opts.guestMute, true);
+                assert.deepEqual(events, ["opts", "guestMute false true"]);
+            });
+        });
+    });
+});
@@ -0,0 +1,77 @@
+"use strict";
+var assert = require("assert");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("framing", function() {
+    var server, client, session;
+
+    beforeEach(function() {
+        return helpers.startServer().then(function(s) {
+            server = s;
+            client = helpers.createClient(server, "guest", "guest");
+            return client.connect();
+        }).then(function() {
+            session = server.getSessions()[0];
+        });
+    });
+    afterEach(function() {
+        client.disconnect();
+        return server.close();
+    });
+
+    function encode(uid, name) {
+        return new mfc.Packet(undefined, mfc.FCTYPE.SESSIONSTATE, 0, 0, 0, uid, 0, { uid: uid, nm: name, vs: 0 }).toBuffer();
+    }
+
+    //Collects the models of the next count SESSIONSTATE packets
+    function sessionStates(count) {
+        return new Promise(function(resolve) {
+            var names = [];
+            client.on("SESSIONSTATE", function onState(packet) {
+                names.push(packet.sMessage.nm);
+                if (names.length === count) {
+                    client.removeListener("SESSIONSTATE", onState);
+                    resolve(names);
+                }
+            });
+        });
+    }
+
+    it("decodes several packets written at once", function() {
+        var received = sessionStates(3);
+        session.sendRaw(Buffer.concat([encode(1, "One"), encode(2, "Two"), encode(3, "Three")]));
+        return received.then(function(names) {
+            assert.deepEqual(names, ["One", "Two", "Three"]);
+        });
+    });
+
+    it("decodes packets split across writes", function() {
+        var received = sessionStates(2);
+        var data = Buffer.concat([encode(1, "One"), encode(2, "Two")]);
+        //One byte at a time, each in a write of its own
+        for (var i = 0; i < data.length; i++) {
+            session.sendRaw(data.slice(i, i + 1));
+        }
+        return received.then(function(names) {
+            assert.deepEqual(names, ["One", "Two"]);
+        });
+    });
+
+    it("drops the connection on a corrupt stream", function() {
+        var error = helpers.waitFor(client, "CLIENT_PROTOCOL_ERROR");
+        var disconnected = helpers.waitFor(client, "CLIENT_DISCONNECTED");
+        var data = encode(1, "One");
+        data.writeInt32BE(0x12345678, 0);
+        session.sendRaw(data);
+        return Promise.all([error, disconnected]).then(function(results) {
+            assert.ok(results[0][0] instanceof Error);
+        });
+    });
+
+    it("refuses to decode a negative payload length", function() {
+        var data = encode(1, "One");
+        data.writeInt32BE(-1, 24);
+        assert.throws(function() { mfc.Packet.fromBuffer(data); }, /payload length -1/);
+    });
+});
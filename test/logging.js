@@ -0,0 +1,74 @@
+"use strict";
+var assert = require("assert");
+var fs = require("fs");
+var os = require("os");
+var path = require("path");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("logging", function() {
+    it("sends client log entries to the given logger with their fields", function() {
+        var entries = [];
+        var logger = { log: function(level, msg, fields) { entries.push({ level: level, msg: msg, fields: fields }); } };
+        return helpers.startServer().then(function(server) {
+            server.addAccount({ name: "Tester", password: "s3cret-passcode", uid: 4242 });
+            var client = helpers.createClient(server, "Tester", "s3cret-passcode", { logger: logger });
+            return client.connect().then(function() {
+                client.disconnect();
+                return server.close();
+            });
+        }).then(function() {
+            assert.ok(entries.some(function(entry) {
+                return entry.level === mfc.LogLevel.Info && /Login handshake completed/.test(entry.msg);
+            }));
+            assert.ok(entries.some(function(entry) {
+                return entry.level === mfc.LogLevel.Trace && entry.fields !== undefined && entry.fields.fctype === "LOGIN";
+            }));
+            entries.forEach(function(entry) {
+                assert.ok(!/s3cret-passcode/.test(entry.msg + JSON.stringify(entry.fields)), entry.msg);
+            });
+        });
+    });
+
+    it("prints entries of at least its level to the console", function() {
+        var printed = [];
+        var logger = new mfc.ConsoleLogger(mfc.LogLevel.Warn, function(line) {
+            printed.push(line);
+            return line;
+        });
+        logger.log(mfc.LogLevel.Info, "quiet");
+        logger.log(mfc.LogLevel.Error, "loud", { room: 100003000 });
+        assert.strictEqual(printed.length, 1);
+        assert.ok(/\] ERROR: loud room=100003000$/.test(printed[0]));
+    });
+
+    it("passes entries on to every logger of a MultiLogger", function() {
+        var a = [], b = [];
+        var logger = new mfc.MultiLogger([
+            { log: function(level, msg) { a.push(msg); } },
+            { log: function(level, msg) { b.push(msg); } }
+        ]);
+        logger.log(mfc.LogLevel.Debug, "both");
+        assert.deepEqual(a, ["both"]);
+        assert.deepEqual(b, ["both"]);
+    });
+
+    it("writes JSON lines to a file per day", function(done) {
+        var root = path.join(os.tmpdir(), "mfcauto-test-" + process.pid);
+        var logger = new mfc.FileLogger(root);
+        logger.log(mfc.LogLevel.Trace, "too detailed");
+        logger.log(mfc.LogLevel.Info, "hello", { room: 100003000 });
+        logger.close(function() {
+            var d = new Date();
+            var pad = function(n) { return n < 10 ? "0" + n : "" + n; };
+            var file = root + "." + d.getFullYear() + "-" + pad(d.getMonth() + 1) + "-" + pad(d.getDate()) + ".log";
+            var lines = fs.readFileSync(file, "utf8").trim().split("\n").map(function(line) { return JSON.parse(line); });
+            fs.unlinkSync(file);
+            assert.strictEqual(lines.length, 1);
+            assert.strictEqual(lines[0].level, "Info");
+            assert.strictEqual(lines[0].msg, "hello");
+            assert.strictEqual(lines[0].room, 100003000);
+            done();
+        });
+    });
+});
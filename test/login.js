@@ -0,0 +1,66 @@
+"use strict";
+var assert = require("assert");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("login", function() {
+    var server, client;
+
+    beforeEach(function() {
+        return helpers.startServer().then(function(s) {
+            server = s;
+            server.addAccount({ name: "Tester", password: "secret", uid: 4242, level: mfc.FCLEVEL.PREMIUM });
+        });
+    });
+    afterEach(function() {
+        client.dispose();
+        return server.close();
+    });
+
+    it("logs in as a guest", function() {
+        client = helpers.createClient(server, "guest", "guest");
+        return client.connect().then(function() {
+            var session = server.getSessions()[0];
+            assert.strictEqual(client.sessionId, session.id);
+            assert.strictEqual(client.uid, session.uid);
+            assert.strictEqual(client.username, "Guest" + session.id);
+        });
+    });
+
+    it("logs in with an account", function() {
+        client = helpers.createClient(server, "Tester", "secret");
+        return client.connect().then(function() {
+            assert.strictEqual(client.uid, 4242);
+            assert.strictEqual(client.username, "Tester");
+        });
+    });
+
+    it("rejects a bad password with the server's response code", function() {
+        client = helpers.createClient(server, "Tester", "wrong");
+        var failed = helpers.waitFor(client, "CLIENT_LOGIN_FAILED");
+        return helpers.expectRejection(client.connect()).then(function(err) {
+            assert.strictEqual(err.code, mfc.FCRESPONSE.NOACCESS);
+            return failed;
+        }).then(function(args) {
+            assert.strictEqual(args[0], mfc.FCRESPONSE.NOACCESS);
+        });
+    });
+
+    it("retries as a guest when asked to", function() {
+        client = helpers.createClient(server, "Tester", "wrong", { loginFailure: mfc.LoginFailurePolicy.RetryAsGuest });
+        return client.connect().then(function() {
+            assert.strictEqual(client.username, "Guest" + client.sessionId);
+        });
+    });
+
+    it("fails to connect when the server configuration lists no chat servers", function() {
+        client = new mfc.Client("guest", "guest", {
+            serverConfig: { chat_servers: [], websocket_servers: {} },
+            reconnect: false,
+            logger: { log: function() { return undefined; } }
+        });
+        return helpers.expectRejection(client.connect()).then(function(err) {
+            assert.ok(/No chat_servers/.test(err.message), err.message);
+        });
+    });
+});
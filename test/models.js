@@ -0,0 +1,115 @@
+"use strict";
+var assert = require("assert");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("models", function() {
+    var server, client;
+
+    beforeEach(function() {
+        return helpers.startServer().then(function(s) {
+            server = s;
+            server.addUser({ sid: 500, uid: 3000, nm: "AModel", lv: mfc.FCLEVEL.MODEL, vs: mfc.STATE.Offline });
+            client = helpers.createClient(server, "guest", "guest");
+        });
+    });
+    afterEach(function() {
+        client.disconnect();
+        return server.close();
+    });
+
+    it("receives the session state of every user after login", function() {
+        var received = helpers.waitFor(client, "SESSIONSTATE");
+        return client.connect().then(function() {
+            return received;
+        }).then(function() {
+            assert.strictEqual(client.models.getModel(3000).nm, "AModel");
+        });
+    });
+
+    it("merges pushed session state changes", function() {
+        return client.connect().then(function() {
+            var model = client.models.getModel(3000);
+            var changed = helpers.waitFor(model, "vs");
+            server.sendSessionState({ uid: 3000, vs: mfc.STATE.FreeChat });
+            return changed;
+        }).then(function(args) {
+            assert.strictEqual(args[0].vs, mfc.STATE.FreeChat);
+            assert.strictEqual(args[2], mfc.STATE.FreeChat);
+        });
+    });
+
+    it("doesn't take the first state seen for a change", function() {
+        var events = [];
+        client.models.on("sessionStart", function(model) { events.push("start " + model.uid); });
+        client.models.on("sessionEnd", function(model) { events.push("end " + model.uid); });
+        server.addUser({ sid: 501, uid: 3001, nm: "BModel", lv: mfc.FCLEVEL.MODEL, vs: mfc.STATE.FreeChat });
+        var model = client.models.getModel(3001);
+        var seen = helpers.waitFor(model, "vs");
+        return client.connect().then(function() {
+            return seen;
+        }).then(function() {
+            assert.deepEqual(model.stateHistory, []);
+            assert.deepEqual(events, []);
+            var changed = helpers.waitFor(model, "vs");
+            server.sendSessionState({ uid: 3001, vs: mfc.STATE.Offline });
+            return changed;
+        }).then(function() {
+            assert.deepEqual(model.stateHistory.map(function(t) { return [t.from, t.to]; }), [[mfc.STATE.FreeChat, mfc.STATE.Offline]]);
+            assert.deepEqual(events, ["end 3001"]);
+        });
+    });
+
+    it("merges pushed tags", function() {
+        return client.connect().then(function() {
+            var changed = helpers.waitFor(client.models, "tags");
+            server.sendTags({ 3000: ["Cute", "Funny"] });
+            return changed;
+        }).then(function() {
+            assert.deepEqual(client.models.getModel(3000).tags, ["Cute", "Funny"]);
+            assert.deepEqual(client.models.getModelsByTag("cute").map(function(m) { return m.uid; }), [3000]);
+        });
+    });
+
+    it("looks users up by name and by id", function() {
+        return client.connect().then(function() {
+            return Promise.all([client.queryUser("amodel"), client.queryUser(3000), client.queryUser("Nobody")]);
+        }).then(function(results) {
+            assert.strictEqual(results[0].uid, 3000);
+            assert.strictEqual(results[1].nm, "AModel");
+            assert.strictEqual(results[2], undefined);
+        });
+    });
+
+    it("emits pushed tips", function() {
+        return client.connect().then(function() {
+            var tipped = helpers.waitFor(client, "tip");
+            server.sendTip({ senderId: 77, senderName: "Fan", modelId: 3000, tokens: 25, message: "hi" });
+            return tipped;
+        }).then(function(args) {
+            var tip = args[0];
+            assert.strictEqual(tip.tokens, 25);
+            assert.strictEqual(tip.senderName, "Fan");
+            assert.strictEqual(tip.model, client.models.getModel(3000));
+        });
+    });
+
+    it("survives malformed tips", function() {
+        return client.connect().then(function() {
+            var tips = [];
+            client.on("tip", function(tip) { tips.push(tip); });
+            var session = server.getSessions()[0];
+            session.send(mfc.FCTYPE.TOKENINC, 0, 0, 0, "garbage");
+            session.send(mfc.FCTYPE.TOKENINC, 0, 0, 0, {});
+            session.send(mfc.FCTYPE.TOKENINC, 0, 0, 0, { tokens: 5, m: 3000, u: "Fan" });
+            var tipped = helpers.waitFor(client, "tip");
+            server.sendTip({ senderId: 77, senderName: "Fan", modelId: 3000, tokens: 25 });
+            return tipped.then(function() {
+                return tips;
+            });
+        }).then(function(tips) {
+            assert.strictEqual(tips.length, 1);
+            assert.strictEqual(tips[0].tokens, 25);
+        });
+    });
+});
@@ -0,0 +1,99 @@
+"use strict";
+var assert = require("assert");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("reconnect", function() {
+    var server, client;
+
+    beforeEach(function() {
+        return helpers.startServer().then(function(s) {
+            server = s;
+            server.addAccount({ name: "Tester", password: "secret", uid: 4242 });
+        });
+    });
+    afterEach(function() {
+        client.disconnect();
+        return server.close();
+    });
+
+    function wait(ms) {
+        return new Promise(function(resolve) { setTimeout(resolve, ms); });
+    }
+
+    it("logs in again and rejoins rooms after the connection drops", function() {
+        client = helpers.createClient(server, "Tester", "secret", { reconnect: { initialDelay: 10, jitter: 0 } });
+        var firstSession;
+        return client.connect().then(function() {
+            return client.joinRoom(3000);
+        }).then(function() {
+            firstSession = client.sessionId;
+            var reconnecting = helpers.waitFor(client, "CLIENT_RECONNECTING");
+            server.getSessions()[0].close();
+            return reconnecting;
+        }).then(function(args) {
+            assert.deepEqual(args, [1, 10]);
+            return new Promise(function(resolve) {
+                client.on("JOINCHAN", function() {
+                    if (client.getRoom(3000).state === mfc.RoomState.Joined) {
+                        resolve();
+                    }
+                });
+            });
+        }).then(function() {
+            var sessions = server.getSessions();
+            assert.strictEqual(sessions.length, 1);
+            assert.notStrictEqual(client.sessionId, firstSession);
+            assert.strictEqual(client.sessionId, sessions[0].id);
+            assert.strictEqual(client.getRoom(3000).state, mfc.RoomState.Joined);
+            assert.deepEqual(server.getRoom(3000).members, sessions);
+        });
+    });
+
+    it("backs off between attempts and gives up after maxAttempts", function() {
+        var random = Math.random;
+        Math.random = function() { return 1; };
+        client = helpers.createClient(server, "Tester", "secret", {
+            reconnect: { initialDelay: 10, factor: 2, jitter: 0.5, maxAttempts: 2 },
+            logger: { log: function() { return undefined; } }
+        });
+        var delays = [];
+        client.on("CLIENT_RECONNECTING", function(attempt, delay) { delays.push([attempt, delay]); });
+        return client.connect().then(function() {
+            var failed = helpers.waitFor(client, "CLIENT_RECONNECT_FAILED");
+            //Nothing to reconnect to from now on
+            server.close();
+            return failed;
+        }).then(function(args) {
+            Math.random = random;
+            assert.deepEqual(args, [2]);
+            assert.deepEqual(delays, [[1, 15], [2, 30]]);
+        }, function(err) {
+            Math.random = random;
+            throw err;
+        });
+    });
+
+    it("isn't confused by disconnect() followed right away by connect()", function() {
+        client = helpers.createClient(server, "Tester", "secret", { reconnect: { initialDelay: 10, jitter: 0 } });
+        var events = [];
+        ["CLIENT_CONNECTED", "CLIENT_DISCONNECTED", "CLIENT_RECONNECTING"].forEach(function(event) {
+            client.on(event, function() { events.push(event); });
+        });
+        return client.connect().then(function() {
+            client.disconnect();
+            return client.connect();
+        }).then(function() {
+            //Long enough for the first connection's close, and any reconnect
+            return wait(100);
+        }).then(function() {
+            assert.deepEqual(events, ["CLIENT_CONNECTED", "CLIENT_DISCONNECTED", "CLIENT_CONNECTED"]);
+            assert.strictEqual(server.getSessions().length, 1);
+            assert.strictEqual(client.sessionId, server.getSessions()[0].id);
+            client.disconnect();
+            return wait(50);
+        }).then(function() {
+            assert.strictEqual(server.getSessions().length, 0);
+        });
+    });
+});
@@ -0,0 +1,260 @@
+"use strict";
+var assert = require("assert");
+var fs = require("fs");
+var os = require("os");
+var path = require("path");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("model registry", function() {
+    var registry;
+
+    beforeEach(function() {
+        registry = new mfc.ModelRegistry();
+    });
+    afterEach(function() {
+        registry.dispose();
+    });
+
+    //Merges a SESSIONSTATE for msg.uid, like one from the server
+    function update(msg) {
+        registry.getModel(msg.uid).mergePacket(mfc.Packet.create(undefined, mfc.FCTYPE.SESSIONSTATE, 0, 0, 0, msg.uid, 0, msg));
+    }
+
+    describe("queries", function() {
+        beforeEach(function() {
+            update({ uid: 3000, nm: "AModel", vs: mfc.STATE.FreeChat, m: { camscore: 500 } });
+            update({ uid: 3001, nm: "BModel", vs: mfc.STATE.Away, m: { camscore: 1500 } });
+        });
+
+        it("finds models by name, ignoring case", function() {
+            assert.strictEqual(registry.getByName("amodel").uid, 3000);
+            update({ uid: 3000, nm: "Renamed" });
+            assert.strictEqual(registry.getByName("AModel"), undefined);
+            assert.strictEqual(registry.getByName("RENAMED").uid, 3000);
+        });
+
+        it("finds models by filter or predicate", function() {
+            var uids = function(models) { return models.map(function(m) { return m.uid; }).sort(); };
+            assert.deepEqual(uids(registry.findModels({ vs: mfc.STATE.FreeChat })), [3000]);
+            assert.deepEqual(uids(registry.findModels({ vs: [mfc.STATE.FreeChat, mfc.STATE.Away] })), [3000, 3001]);
+            assert.deepEqual(uids(registry.findModels({ camscore: { min: 1000 } })), [3001]);
+            assert.deepEqual(uids(registry.findModels(function(m) { return m.nm === "AModel"; })), [3000]);
+        });
+
+        it("keeps ModelSets up to date", function() {
+            var set = registry.watchModels({ vs: mfc.STATE.FreeChat });
+            var events = [];
+            set.on("add", function(m) { events.push("add " + m.uid); });
+            set.on("remove", function(m) { events.push("remove " + m.uid); });
+            assert.ok(set.has(3000));
+            assert.strictEqual(set.size, 1);
+
+            update({ uid: 3001, vs: mfc.STATE.FreeChat });
+            update({ uid: 3000, vs: mfc.STATE.Offline });
+            update({ uid: 3000, nm: "AModel" });
+            assert.deepEqual(events, ["add 3001", "remove 3000"]);
+            assert.deepEqual(set.getModels().map(function(m) { return m.uid; }), [3001]);
+
+            registry.clear();
+            assert.deepEqual(events, ["add 3001", "remove 3000", "remove 3001"]);
+            assert.strictEqual(set.size, 0);
+        });
+
+        it("stops updating disposed ModelSets", function() {
+            var set = registry.watchModels({ vs: mfc.STATE.FreeChat });
+            set.dispose();
+            update({ uid: 3001, vs: mfc.STATE.FreeChat });
+            assert.strictEqual(set.size, 0);
+        });
+    });
+
+    describe("snapshots", function() {
+        var snapshotPath;
+
+        beforeEach(function() {
+            snapshotPath = path.join(os.tmpdir(), "mfcauto-snapshot-" + process.pid + "-" + Date.now());
+            update({ uid: 3000, nm: "AModel", vs: mfc.STATE.FreeChat, m: { camscore: 500, flags: mfc.FCOPT.HDVIDEO } });
+            update({ uid: 3001, nm: "BModel", vs: mfc.STATE.Away });
+        });
+        afterEach(function() {
+            [".json", ".ndjson"].forEach(function(extension) {
+                if (fs.existsSync(snapshotPath + extension)) {
+                    fs.unlinkSync(snapshotPath + extension);
+                }
+            });
+        });
+
+        //Saves registry to file, then loads it into a new registry
+        function roundTrip(file) {
+            return new Promise(function(resolve, reject) {
+                registry.saveSnapshot(file, function(err) {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+                    var restored = new mfc.ModelRegistry();
+                    restored.loadSnapshot(file, function(err, count) {
+                        if (err) {
+                            reject(err);
+                        } else {
+                            resolve([restored, count]);
+                        }
+                    });
+                });
+            });
+        }
+
+        [".json", ".ndjson"].forEach(function(extension) {
+            it("saves and loads " + extension + " files", function() {
+                return roundTrip(snapshotPath + extension).then(function(results) {
+                    var restored = results[0];
+                    assert.strictEqual(results[1], 2);
+                    var model = restored.getByName("AModel");
+                    assert.strictEqual(model.uid, 3000);
+                    assert.strictEqual(model.vs, mfc.STATE.FreeChat);
+                    assert.strictEqual(model.camscore, 500);
+                    assert.strictEqual(model.opts.hdVideo, true);
+                    assert.strictEqual(model.stale, true);
+                    restored.dispose();
+                });
+            });
+        });
+
+        it("writes newline delimited JSON for .ndjson files", function() {
+            return roundTrip(snapshotPath + ".ndjson").then(function(results) {
+                results[0].dispose();
+                var lines = fs.readFileSync(snapshotPath + ".ndjson", "utf8").trim().split("\n");
+                assert.strictEqual(lines.length, 3);
+                assert.strictEqual(JSON.parse(lines[0]).version, mfc.ModelRegistry.snapshotVersion);
+            });
+        });
+
+        it("marks restored models stale until the server confirms them", function() {
+            var restored = new mfc.ModelRegistry();
+            update({ uid: 3001, vs: mfc.STATE.FreeChat });
+            var snapshot = registry.exportSnapshot();
+            restored.getModel(3001).mergePacket(mfc.Packet.create(undefined, mfc.FCTYPE.SESSIONSTATE, 0, 0, 0, 3001, 0, { uid: 3001, vs: mfc.STATE.Offline }));
+            assert.strictEqual(restored.importSnapshot(snapshot), 1);
+            assert.strictEqual(restored.getModel(3001).vs, mfc.STATE.Offline);
+
+            var stale = restored.watchModels({ stale: true });
+            var events = [];
+            restored.getModel(3000).on("stale", function(model, before, after) { events.push([before, after]); });
+            stale.on("remove", function(model) { events.push("remove " + model.uid); });
+            assert.deepEqual(stale.getModels().map(function(m) { return m.uid; }), [3000]);
+            restored.getModel(3000).mergePacket(mfc.Packet.create(undefined, mfc.FCTYPE.SESSIONSTATE, 0, 0, 0, 3000, 0, { uid: 3000, vs: mfc.STATE.Away }));
+            assert.strictEqual(restored.getModel(3000).stale, false);
+            assert.deepEqual(events, ["remove 3000", [true, false]]);
+            restored.dispose();
+        });
+
+        it("refuses snapshots of other versions", function() {
+            var snapshot = registry.exportSnapshot();
+            snapshot.version = mfc.ModelRegistry.snapshotVersion + 1;
+            assert.throws(function() { new mfc.ModelRegistry().importSnapshot(snapshot); }, /version/);
+        });
+    });
+
+    describe("tags", function() {
+        //Merges a TAGS packet for uid, like one from the server
+        function tag(uid, tags) {
+            var msg = {};
+            msg[uid] = tags;
+            registry.getModel(uid).mergePacket(mfc.Packet.create(undefined, mfc.FCTYPE.TAGS, 0, 0, 0, 0, 0, msg));
+        }
+        function uids(models) {
+            return models.map(function(m) { return m.uid; }).sort();
+        }
+
+        it("replaces tags by default and indexes them ignoring case", function() {
+            var model = registry.getModel(3000);
+            var events = [];
+            model.on("tagsAdded", function(m, tags) { events.push(["added", tags]); });
+            model.on("tagsRemoved", function(m, tags) { events.push(["removed", tags]); });
+            tag(3000, ["Cute", "funny", "cute"]);
+            tag(3001, ["CUTE"]);
+            assert.deepEqual(model.tags, ["Cute", "funny"]);
+            assert.deepEqual(uids(registry.getModelsByTag("cute")), [3000, 3001]);
+            assert.deepEqual(registry.getTags().sort(), ["cute", "funny"]);
+
+            tag(3000, ["funny", "Smart"]);
+            assert.deepEqual(model.tags, ["funny", "Smart"]);
+            assert.deepEqual(uids(registry.getModelsByTag("CUTE")), [3001]);
+            assert.deepEqual(uids(registry.getModelsByTag("smart")), [3000]);
+            assert.deepEqual(events, [["added", ["Cute", "funny"]], ["added", ["Smart"]], ["removed", ["Cute"]]]);
+        });
+
+        it("drops tags no model has anymore from the index", function() {
+            tag(3000, ["cute"]);
+            tag(3000, []);
+            assert.deepEqual(registry.getModelsByTag("cute"), []);
+            assert.deepEqual(registry.getTags(), []);
+        });
+
+        it("adds to the existing tags with TagMergePolicy.Merge", function() {
+            registry.tagMerge = mfc.TagMergePolicy.Merge;
+            var events = 0;
+            registry.getModel(3000).on("tags", function() { events++; });
+            tag(3000, ["cute"]);
+            tag(3000, ["Funny", "CUTE"]);
+            tag(3000, ["funny"]);
+            assert.deepEqual(registry.getModel(3000).tags, ["cute", "Funny"]);
+            assert.deepEqual(uids(registry.getModelsByTag("funny")), [3000]);
+            assert.strictEqual(events, 2);
+        });
+
+        it("matches tags in filters ignoring case", function() {
+            tag(3000, ["Cute", "funny"]);
+            tag(3001, ["cute"]);
+            assert.deepEqual(uids(registry.findModels({ tags: ["CUTE", "Funny"] })), [3000]);
+        });
+    });
+
+    describe("default registry", function() {
+        var clients = [];
+
+        afterEach(function() {
+            clients.forEach(function(client) { client.dispose(); });
+            clients = [];
+        });
+
+        function createClient() {
+            var client = new mfc.Client("guest", "guest", { reconnect: false, logger: new mfc.ConsoleLogger(mfc.LogLevel.Error) });
+            clients.push(client);
+            return client;
+        }
+
+        it("is passed on to the next Client once its Client is disposed of", function() {
+            var defaultRegistry = mfc.ModelRegistry.defaultRegistry;
+            var heard = [];
+            var listener = function(model) { heard.push(model.uid); };
+            mfc.Model.on("vs", listener);
+
+            var first = createClient();
+            var second = createClient();
+            assert.strictEqual(first.models, defaultRegistry);
+            assert.notStrictEqual(second.models, defaultRegistry);
+            first.models.getModel(3000).mergePacket(mfc.Packet.create(undefined, mfc.FCTYPE.SESSIONSTATE, 0, 0, 0, 3000, 0, { uid: 3000, vs: mfc.STATE.FreeChat }));
+
+            first.dispose();
+            assert.deepEqual(defaultRegistry.getModels(), []);
+            var third = createClient();
+            assert.strictEqual(third.models, defaultRegistry);
+            third.models.getModel(3001).mergePacket(mfc.Packet.create(undefined, mfc.FCTYPE.SESSIONSTATE, 0, 0, 0, 3001, 0, { uid: 3001, vs: mfc.STATE.FreeChat }));
+            mfc.Model.removeListener("vs", listener);
+            assert.deepEqual(heard, [3000, 3001]);
+        });
+
+        it("leaves registries given with the models option alone", function() {
+            var client = new mfc.Client("guest", "guest", { reconnect: false, models: registry });
+            var events = 0;
+            registry.on("vs", function() { events++; });
+            update({ uid: 3000, vs: mfc.STATE.FreeChat });
+            client.dispose();
+            assert.strictEqual(registry.getModels().length, 1);
+            update({ uid: 3000, vs: mfc.STATE.Away });
+            assert.strictEqual(events, 2);
+        });
+    });
+});
@@ -0,0 +1,79 @@
+"use strict";
+var assert = require("assert");
+var fs = require("fs");
+var os = require("os");
+var path = require("path");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("capture and replay", function() {
+    var server, capturePath;
+
+    beforeEach(function() {
+        capturePath = path.join(os.tmpdir(), "mfcauto-replay-" + process.pid + "-" + Date.now() + ".capture");
+        return helpers.startServer().then(function(s) {
+            server = s;
+            server.addAccount({ name: "Tester", password: "secret", uid: 4242 });
+            server.addUser({ sid: 500, uid: 3000, nm: "AModel", lv: mfc.FCLEVEL.MODEL, vs: mfc.STATE.FreeChat });
+        });
+    });
+    afterEach(function() {
+        if (fs.existsSync(capturePath)) {
+            fs.unlinkSync(capturePath);
+        }
+        return server.close();
+    });
+
+    function createReplay() {
+        return new mfc.ReplayClient(capturePath, {
+            speed: 0,
+            models: new mfc.ModelRegistry(),
+            logger: new mfc.ConsoleLogger(mfc.LogLevel.Error)
+        });
+    }
+
+    it("replays a captured session", function() {
+        var client = helpers.createClient(server, "Tester", "secret", { capture: capturePath });
+        return client.connect().then(function() {
+            return client.joinRoom(3000);
+        }).then(function() {
+            return client.sendChat(3000, "hello there");
+        }).then(function() {
+            client.disconnect();
+            return new Promise(function(resolve) { client.stopCapture(resolve); });
+        }).then(function() {
+            var capture = fs.readFileSync(capturePath, "utf8").split("\n").filter(function(line) { return line !== ""; });
+            capture.forEach(function(line) {
+                var frame = JSON.parse(line);
+                assert.ok(frame.data === undefined || !/secret/.test(new Buffer(frame.data, "base64").toString()), line);
+            });
+            var replay = createReplay();
+            var chat = [];
+            replay.on("CMESG", function(packet) { chat.push(packet.pMessage); });
+            var finished = helpers.waitFor(replay, "CLIENT_DISCONNECTED");
+            return replay.connect().then(function() {
+                return finished;
+            }).then(function() {
+                assert.deepEqual(chat, ["hello there"]);
+                assert.strictEqual(replay.models.getModel(3000).nm, "AModel");
+            });
+        });
+    });
+
+    it("rejects anything that needs a response right away", function() {
+        fs.writeFileSync(capturePath, "");
+        var replay = createReplay();
+        return replay.connect().then(function() {
+            return Promise.all([
+                helpers.expectRejection(replay.sendChat(3000, "hi")),
+                helpers.expectRejection(replay.sendPM(3000, "hi")),
+                helpers.expectRejection(replay.joinRoom(3000)),
+                helpers.expectRejection(replay.queryUser("AModel"))
+            ]);
+        }).then(function(errors) {
+            errors.forEach(function(err) {
+                assert.ok(/during a replay/.test(err.message), err.message);
+            });
+        });
+    });
+});
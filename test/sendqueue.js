@@ -0,0 +1,118 @@
+"use strict";
+var assert = require("assert");
+var EventEmitter = require("events").EventEmitter;
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("send queue", function() {
+    var queue, transport, written;
+
+    //A transport that records what's written, and asks to wait once full is set
+    beforeEach(function() {
+        written = [];
+        transport = new EventEmitter();
+        transport.full = false;
+        transport.write = function(data) {
+            written.push(mfc.Packet.fromBuffer(data).sMessage);
+            return !transport.full;
+        };
+    });
+    afterEach(function() {
+        queue.detach();
+    });
+
+    function packet(nType, to, text) {
+        return new mfc.Packet(undefined, nType, 0, to, 0, 0, 0, text);
+    }
+    function chat(to, text) {
+        return packet(mfc.FCTYPE.CMESG, to, text);
+    }
+    function wait(ms) {
+        return new Promise(function(resolve) { setTimeout(resolve, ms); });
+    }
+
+    it("sends control packets first, then other packets, then chat", function() {
+        queue = new mfc.SendQueue({ globalLimit: { count: 1, interval: 50 }, roomLimit: null });
+        queue.attach(transport);
+        queue.send(packet(mfc.FCTYPE.USERNAMELOOKUP, 0, "first"), mfc.SendPriority.Normal);
+        queue.send(chat(100003000, "chat"), mfc.SendPriority.Chat);
+        queue.send(packet(mfc.FCTYPE.USERNAMELOOKUP, 0, "normal"), mfc.SendPriority.Normal);
+        queue.send(packet(mfc.FCTYPE.NULL, 0, "control"), mfc.SendPriority.Control);
+        assert.deepEqual(written, ["first", "control"]);
+        assert.strictEqual(queue.length, 2);
+        return wait(150).then(function() {
+            assert.deepEqual(written, ["first", "control", "normal", "chat"]);
+        });
+    });
+
+    it("limits chat per room without holding up other rooms", function() {
+        var delayed = [];
+        queue = new mfc.SendQueue({ globalLimit: null, roomLimit: { count: 1, interval: 50 } });
+        queue.on("delayed", function(p) { delayed.push(p.sMessage); });
+        queue.attach(transport);
+        queue.send(chat(100003000, "one"), mfc.SendPriority.Chat);
+        queue.send(chat(100003000, "two"), mfc.SendPriority.Chat);
+        queue.send(chat(100005000, "elsewhere"), mfc.SendPriority.Chat);
+        assert.deepEqual(written, ["one", "elsewhere"]);
+        assert.deepEqual(delayed, ["two"]);
+        return wait(100).then(function() {
+            assert.deepEqual(written, ["one", "elsewhere", "two"]);
+        });
+    });
+
+    it("lets rooms chat again once their messages no longer count", function() {
+        var delayed = [];
+        var waited = {};
+        queue = new mfc.SendQueue({ globalLimit: null, roomLimit: { count: 1, interval: 20 } });
+        queue.on("delayed", function(p) { delayed.push(p.sMessage); });
+        queue.on("sent", function(p, data, ms) { waited[p.sMessage] = ms; });
+        queue.attach(transport);
+        queue.send(chat(100003000, "one"), mfc.SendPriority.Chat);
+        queue.send(chat(100005000, "two"), mfc.SendPriority.Chat);
+        queue.send(chat(100003000, "three"), mfc.SendPriority.Chat);
+        queue.send(chat(100007000, "four"), mfc.SendPriority.Chat);
+        assert.deepEqual(written, ["one", "two", "four"]);
+        assert.deepEqual(delayed, ["three"]);
+        return wait(50).then(function() {
+            assert.deepEqual(written, ["one", "two", "four", "three"]);
+            assert.ok(waited.three >= 15, "three waited " + waited.three + "ms");
+            queue.send(chat(100005000, "five"), mfc.SendPriority.Chat);
+            queue.send(chat(100007000, "six"), mfc.SendPriority.Chat);
+            assert.deepEqual(written, ["one", "two", "four", "three", "five", "six"]);
+            assert.deepEqual(delayed, ["three"]);
+            assert.strictEqual(waited.five, 0);
+        });
+    });
+
+    it("drops the stalest chat when too much is queued", function() {
+        var dropped = [];
+        queue = new mfc.SendQueue({ maxQueued: 2 });
+        queue.on("dropped", function(p, reason) { dropped.push([p.sMessage, reason]); });
+        queue.attach(transport);
+        transport.full = true;
+        queue.send(packet(mfc.FCTYPE.NULL, 0, "control"), mfc.SendPriority.Control);
+        queue.send(chat(100003000, "old"), mfc.SendPriority.Chat);
+        queue.send(packet(mfc.FCTYPE.USERNAMELOOKUP, 0, "normal"), mfc.SendPriority.Normal);
+        queue.send(chat(100003000, "new"), mfc.SendPriority.Chat);
+        assert.deepEqual(written, ["control"]);
+        assert.deepEqual(dropped, [["old", mfc.DropReason.Overflow]]);
+
+        transport.full = false;
+        transport.emit("drain");
+        assert.deepEqual(written, ["control", "normal", "new"]);
+    });
+
+    it("drops everything queued when disconnected", function() {
+        var dropped = [];
+        queue = new mfc.SendQueue();
+        queue.on("dropped", function(p, reason) { dropped.push([p.sMessage, reason]); });
+        queue.attach(transport);
+        transport.full = true;
+        queue.send(chat(100003000, "sent"), mfc.SendPriority.Chat);
+        queue.send(chat(100003000, "queued"), mfc.SendPriority.Chat);
+        queue.detach();
+        queue.send(chat(100003000, "too late"), mfc.SendPriority.Chat);
+        assert.deepEqual(written, ["sent"]);
+        assert.deepEqual(dropped, [["queued", mfc.DropReason.Disconnected], ["too late", mfc.DropReason.Disconnected]]);
+    });
+});
@@ -0,0 +1,110 @@
+"use strict";
+var assert = require("assert");
+var fs = require("fs");
+var os = require("os");
+var path = require("path");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("chat server selection", function() {
+    var server, client, hosts;
+
+    beforeEach(function() {
+        hosts = [];
+        return helpers.startServer().then(function(s) {
+            server = s;
+            server.addAccount({ name: "Tester", password: "secret", uid: 4242 });
+        });
+    });
+    afterEach(function() {
+        client.disconnect();
+        return server.close();
+    });
+
+    //A Client without a host, so it has to choose a chat server, whose
+    //connections record the chosen host and then go to the MockServer instead
+    function createClient(options) {
+        options.reconnect = false;
+        options.models = new mfc.ModelRegistry();
+        options.logger = options.logger || new mfc.ConsoleLogger(mfc.LogLevel.Error);
+        options.transport = function() {
+            var transport = new mfc.TcpTransport();
+            var connect = transport.connect;
+            transport.connect = function(host, port) {
+                hosts.push(host);
+                connect.call(transport, "127.0.0.1", server.port);
+            };
+            return transport;
+        };
+        return new mfc.Client("Tester", "secret", options);
+    }
+
+    //Connects and disconnects count times in a row
+    function reconnect(count) {
+        var done = Promise.resolve();
+        for (var i = 0; i < count; i++) {
+            done = done.then(function() {
+                return client.connect();
+            }).then(function() {
+                client.disconnect();
+            });
+        }
+        return done;
+    }
+
+    var config = { chat_servers: ["xchat20", "xchat21", "xchat22"] };
+
+    it("goes through the servers in order with RoundRobin", function() {
+        client = createClient({ serverConfig: config, serverSelection: mfc.ServerSelection.RoundRobin });
+        return reconnect(4).then(function() {
+            assert.deepStrictEqual(hosts, ["xchat20.myfreecams.com", "xchat21.myfreecams.com", "xchat22.myfreecams.com", "xchat20.myfreecams.com"]);
+        });
+    });
+
+    it("keeps to the first server chosen with Sticky", function() {
+        client = createClient({ serverConfig: config, serverSelection: mfc.ServerSelection.Sticky });
+        return reconnect(3).then(function() {
+            assert.strictEqual(hosts.length, 3);
+            assert.ok(config.chat_servers.some(function(name) { return hosts[0] === name + ".myfreecams.com"; }));
+            assert.strictEqual(hosts[1], hosts[0]);
+            assert.strictEqual(hosts[2], hosts[0]);
+        });
+    });
+
+    it("asks a custom selector, telling it the previous server", function() {
+        var calls = [];
+        var selector = function(servers, previous) {
+            calls.push([servers.slice(), previous]);
+            return servers[servers.length - calls.length];
+        };
+        client = createClient({ serverConfig: config, serverSelection: selector });
+        return reconnect(2).then(function() {
+            assert.deepStrictEqual(calls, [
+                [config.chat_servers, undefined],
+                [config.chat_servers, "xchat22"]
+            ]);
+            assert.deepStrictEqual(hosts, ["xchat22.myfreecams.com", "xchat21.myfreecams.com"]);
+        });
+    });
+
+    it("loads the server configuration from a file", function() {
+        var file = path.join(os.tmpdir(), "mfcauto-serverconfig-" + process.pid + ".json");
+        fs.writeFileSync(file, JSON.stringify({ chat_servers: ["xchat99"] }));
+        client = createClient({ serverConfig: file, serverSelection: mfc.ServerSelection.RoundRobin });
+        return client.connect().then(function() {
+            fs.unlinkSync(file);
+            assert.deepStrictEqual(hosts, ["xchat99.myfreecams.com"]);
+        }, function(err) {
+            fs.unlinkSync(file);
+            throw err;
+        });
+    });
+
+    it("fails to connect when the configuration lists no servers", function() {
+        client = createClient({ serverConfig: { chat_servers: [] }, logger: { log: function() { return undefined; } } });
+        return helpers.expectRejection(client.connect()).then(function(err) {
+            assert.ok(/No chat_servers/.test(err.message));
+            assert.deepStrictEqual(hosts, []);
+        });
+    });
+});
@@ -0,0 +1,47 @@
+"use strict";
+var mfc = require("../../index");
+
+//Starts a MockServer on any free port, using the given TransportType
+function startServer(transport) {
+    var server = new mfc.MockServer(transport);
+    return server.listen().then(function() {
+        return server;
+    });
+}
+
+//A Client for the given MockServer, with a registry of its own so tests
+//don't see each other's models, that doesn't reconnect unless asked to
+function createClient(server, username, password, options) {
+    options = options || {};
+    options.host = "127.0.0.1";
+    options.port = server.port;
+    options.transport = server.transport;
+    options.reconnect = options.reconnect !== undefined ? options.reconnect : false;
+    options.models = options.models || new mfc.ModelRegistry();
+    options.logger = options.logger || new mfc.ConsoleLogger(mfc.LogLevel.Error);
+    return new mfc.Client(username, password, options);
+}
+
+//Resolves with the arguments of the next emit of event
+function waitFor(emitter, event) {
+    return new Promise(function(resolve) {
+        emitter.once(event, function() {
+            resolve(Array.prototype.slice.call(arguments));
+        });
+    });
+}
+
+//Resolves if promise rejects, with the error, and rejects if it doesn't
+function expectRejection(promise) {
+    return promise.then(function(result) {
+        throw new Error("Expected a rejection, got " + result);
+    }, function(err) {
+        return err;
+    });
+}
+
+exports.mfc = mfc;
+exports.startServer = startServer;
+exports.createClient = createClient;
+exports.waitFor = waitFor;
+exports.expectRejection = expectRejection;
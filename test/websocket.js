@@ -0,0 +1,92 @@
+"use strict";
+var assert = require("assert");
+var helpers = require("./support/helpers");
+var mfc = helpers.mfc;
+
+describe("websocket transport", function() {
+    var server, client, session;
+
+    beforeEach(function() {
+        return helpers.startServer(mfc.TransportType.WebSocket).then(function(s) {
+            server = s;
+            client = helpers.createClient(server, "guest", "guest");
+            return client.connect();
+        }).then(function() {
+            session = server.getSessions()[0];
+        });
+    });
+    afterEach(function() {
+        client.disconnect();
+        return server.close();
+    });
+
+    it("logs in", function() {
+        assert.strictEqual(client.sessionId, session.id);
+        assert.strictEqual(client.username, "Guest" + session.id);
+    });
+
+    it("gives the same packets as TCP", function() {
+        var msg = { uid: 3000, nm: "A Model & friends", vs: mfc.STATE.Away, tags: ["Percent %20 sign"] };
+        return helpers.startServer().then(function(tcpServer) {
+            var tcpClient = helpers.createClient(tcpServer, "guest", "guest");
+            return tcpClient.connect().then(function() {
+                var viaTcp = helpers.waitFor(tcpClient, "SESSIONSTATE");
+                var viaWebSocket = helpers.waitFor(client, "SESSIONSTATE");
+                tcpServer.getSessions()[0].send(mfc.FCTYPE.SESSIONSTATE, 1, 2, 3000, msg, 4);
+                session.send(mfc.FCTYPE.SESSIONSTATE, 1, 2, 3000, msg, 4);
+                return Promise.all([viaTcp, viaWebSocket]);
+            }).then(function(results) {
+                tcpClient.disconnect();
+                var a = results[0][0], b = results[1][0];
+                assert.ok(b instanceof mfc.SessionStatePacket);
+                ["FCType", "nFrom", "nTo", "nArg1", "nArg2"].forEach(function(field) {
+                    assert.strictEqual(b[field], a[field], field);
+                });
+                assert.deepEqual(b.sMessage, a.sMessage);
+                return tcpServer.close();
+            });
+        });
+    });
+
+    it("joins rooms and chats", function() {
+        server.addUser({ sid: 500, uid: 3000, nm: "AModel", lv: mfc.FCLEVEL.MODEL, vs: mfc.STATE.FreeChat });
+        return client.joinRoom(3000).then(function() {
+            assert.ok(client.getRoom(3000).getMember(3000) !== undefined);
+            return client.sendChat(3000, "hello & goodbye");
+        }).then(function(packet) {
+            assert.strictEqual(packet.pMessage, "hello & goodbye");
+        });
+    });
+
+    it("parses several packets in one message, and packets split across messages", function() {
+        var names = [];
+        var received = new Promise(function(resolve) {
+            client.on("SESSIONSTATE", function(packet) {
+                names.push(packet.sMessage.nm);
+                if (names.length === 3) {
+                    resolve();
+                }
+            });
+        });
+        function frame(name) {
+            var text = mfc.WebSocketTransport.toText(new mfc.Packet(undefined, mfc.FCTYPE.SESSIONSTATE, 0, 0, 0, 1, 0, { uid: 1, nm: name }), true);
+            return ("000000" + text.length).slice(-6) + text;
+        }
+        var text = frame("One") + frame("Two") + frame("Three");
+        session.sendRaw(text.substr(0, 40));
+        session.sendRaw(text.substr(40, 3));
+        session.sendRaw(text.substr(43));
+        return received.then(function() {
+            assert.deepEqual(names, ["One", "Two", "Three"]);
+        });
+    });
+
+    it("drops the connection on an invalid frame", function() {
+        var error = helpers.waitFor(client, "CLIENT_PROTOCOL_ERROR");
+        var disconnected = helpers.waitFor(client, "CLIENT_DISCONNECTED");
+        session.sendRaw("00001x garbage");
+        return Promise.all([error, disconnected]).then(function(results) {
+            assert.ok(results[0][0] instanceof Error);
+        });
+    });
+});
@@ -1,2 +1,3 @@
 
 /// <reference path="node/node.d.ts" />
+/// <reference path="es6-promise/es6-promise.d.ts" />